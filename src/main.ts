@@ -2,78 +2,429 @@ import "./styles/styles.css";
 
 import {
   App,
+  Component,
+  debounce,
+  Editor,
   EditorPosition,
   FuzzyMatch,
   FuzzySuggestModal,
+  getAllTags,
+  getLinkpath,
+  ItemView,
+  MarkdownRenderer,
   MarkdownView,
   Modal,
+  moment,
+  normalizePath,
   Notice,
+  parseFrontMatterAliases,
   Plugin,
   PluginSettingTab,
+  SearchMatches,
+  setIcon,
   Setting,
+  SuggestModal,
+  TAbstractFile,
   TFile,
+  TFolder,
+  WorkspaceLeaf,
 } from "obsidian";
+import type {
+  CanvasData,
+  CanvasEdgeData,
+  CanvasFileData,
+  NodeSide,
+} from "obsidian/canvas";
 
-const idOnlyRegex = /([0-9]+|[a-z]+)/g;
-const checkSettingsMessage = "Try checking the settings if this seems wrong.";
-
-const lettersIDComponentSuccessors: Record<string, string> = {
-  a: "b",
-  b: "c",
-  c: "d",
-  d: "e",
-  e: "f",
-  f: "g",
-  g: "h",
-  h: "i",
-  i: "j",
-  j: "k",
-  k: "l",
-  l: "m",
-  m: "n",
-  n: "o",
-  o: "p",
-  p: "q",
-  q: "r",
-  r: "s",
-  s: "t",
-  t: "u",
-  u: "v",
-  v: "w",
-  w: "x",
-  x: "y",
-  y: "z",
-  z: "aa",
-};
+const checkSettingsMessage =
+  "Try checking the settings or running Check Zettelkasten if this seems wrong.";
+const ZETTEL_TREE_VIEW_TYPE = "luhman-zettel-tree";
+const ZETTEL_CHECK_VIEW_TYPE = "luhman-zettel-check";
+const TEMP_RENAME_PREFIX = "~luhman-";
+
+const MAX_JOURNAL_ENTRIES = 20;
+const MIGRATION_MAPPING_FILE = "luhman-migration.csv";
+const NAV_BLOCK_START = "<!-- luhman:nav -->";
+const NAV_BLOCK_END = "<!-- /luhman:nav -->";
+const NAV_BLOCK_REGEX = /<!-- luhman:nav -->[\s\S]*?<!-- \/luhman:nav -->/;
+/** A table of contents or keyword register, for the whole vault or the
+ * branch whose ID follows the kind */
+const INDEX_BLOCK_REGEX =
+  /<!-- luhman:(contents|register)(?: (\S+))? -->[\s\S]*?<!-- \/luhman:\1 -->/g;
+const CANVAS_CARD_WIDTH = 400;
+const CANVAS_CARD_HEIGHT = 240;
+const CANVAS_GAP_X = 160;
+const CANVAS_GAP_Y = 40;
+const CANVAS_LINK_COLOR = "5";
+
+type ZettelMovePosition = "child" | "before" | "after";
+type ZettelInsertStrategy = "branch" | "shift";
+type ZettelMergeChildren = "rehome" | "keep";
+type ZettelDeleteChildren = "subtree" | "promote" | "orphan";
+type ZettelIndexKind = "contents" | "register";
+
+interface ZettelSearchEntry {
+  file: TFile;
+  id: string;
+  title: string;
+  aliases: string[];
+  excerpt: string;
+  breadcrumb: string[];
+}
+
+/** A file rename, or a change of the frontmatter ID of the file at `path` */
+interface ZettelRename {
+  from: string;
+  to: string;
+  path?: string;
+}
+
+/** Files to trash, renames to run afterwards and whether a tombstone note
+ * takes the place of the deleted zettel */
+interface ZettelDeletion {
+  deleted: TFile[];
+  plan: Map<TFile, string>;
+  tombstone: boolean;
+}
+
+/** A step that has to run before a new zettel is created, e.g. making room
+ * for its ID. `revert` runs if the zettel can't be created after all. */
+interface ZettelPreparation {
+  run: () => Promise<boolean>;
+  revert: () => Promise<void>;
+}
+
+interface CompiledBranch {
+  root: TFile;
+  path: string;
+  markdown: string;
+  notes: number;
+}
+
+interface RenameBatch {
+  description: string;
+  time: number;
+  renames: ZettelRename[];
+  /** Paths of notes the batch created, trashed again on undo */
+  created?: string[];
+  /** False for merges and deletions, whose trashed notes undo can't restore */
+  undoable?: boolean;
+}
+
+type IDComponentType = "number" | "letter";
+
+type MigrationStrategy = "folders" | "frontmatter" | "alphabetical";
+
+interface NamingRule {
+  matchRule: string;
+  separator: string;
+}
+
+interface NamingConflict {
+  path: string;
+  reason: string;
+}
+
+interface NamingConversion {
+  renames: ZettelRename[];
+  /** Titles that only existed in the old filename, by new path */
+  aliases: Map<string, string>;
+  conflicts: NamingConflict[];
+}
+
+/** A note, or a folder that gets a new note, and the ID it migrates to */
+interface MigrationEntry {
+  path: string;
+  id: string;
+}
+
+type ZettelIssueKind = "duplicate" | "orphan" | "gap" | "near-miss" | "nav";
+
+interface ZettelIssue {
+  kind: ZettelIssueKind;
+  message: string;
+  files: TFile[];
+  fix?: { label: string; apply: () => Promise<unknown> };
+}
+
+interface BranchTemplate {
+  id: string;
+  templateFile: string;
+}
+
+interface IDSchemeOptions {
+  idDelimiter: string;
+  idDelimiterPlacement: "all" | "first";
+  idFirstComponent: IDComponentType;
+  idLetterCase: "lower" | "upper";
+  idNumberPadding: number;
+}
 
-interface LuhmanSettings {
+interface LuhmanSettings extends IDSchemeOptions {
   matchRule: string;
   separator: string;
+  idField: string;
   addTitle: boolean;
   addAlias: boolean;
   useLinkAlias: boolean;
+  insertLinkFormat: string;
+  searchNoteBody: boolean;
   customTemplate: boolean;
   templateFile: string;
   templateRequireTitle: boolean;
   templateRequireLink: boolean;
+  templateRequiredPlaceholders: string;
+  branchTemplates: BranchTemplate[];
   insertLinkInParent: boolean;
   insertLinkInChild: boolean;
+  maintainNavBlock: boolean;
+  showBreadcrumbs: boolean;
+  compileFolder: string;
+  renameJournal: RenameBatch[];
+  /** The naming rule before the last change, until zettels are converted */
+  previousNaming: NamingRule | null;
 }
 
 const DEFAULT_SETTINGS: LuhmanSettings = {
   matchRule: "strict",
+  idField: "id",
   addTitle: false,
   addAlias: false,
   useLinkAlias: false,
+  insertLinkFormat: "filename",
+  searchNoteBody: false,
   separator: "⁝ ",
   customTemplate: false,
   templateFile: "",
   templateRequireTitle: true,
   templateRequireLink: true,
+  templateRequiredPlaceholders: "",
+  branchTemplates: [],
   insertLinkInParent: true,
   insertLinkInChild: true,
+  maintainNavBlock: false,
+  showBreadcrumbs: true,
+  compileFolder: "Compiled",
+  renameJournal: [],
+  previousNaming: null,
+  idDelimiter: "",
+  idDelimiterPlacement: "all",
+  idFirstComponent: "number",
+  idLetterCase: "lower",
+  idNumberPadding: 0,
 };
 
+/** Fills in {{name}} and {{name:argument}} placeholders. Unknown
+ * placeholders are left as they are. The first {{cursor}} marker is removed
+ * and its position returned. */
+function renderTemplate(
+  template: string,
+  variables: Map<string, string>
+): { content: string; cursor: number | null } {
+  let content = "";
+  let cursor: number | null = null;
+  let lastIndex = 0;
+  for (const match of template.matchAll(/{{(\w+)(?::([^}]*))?}}/g)) {
+    const [placeholder, name, argument] = match;
+    const index = match.index ?? 0;
+    content += template.slice(lastIndex, index);
+    lastIndex = index + placeholder.length;
+    if (name == "cursor") {
+      cursor = cursor ?? content.length;
+    } else if (name == "date") {
+      content += moment().format(argument ?? "YYYY-MM-DD");
+    } else if (name == "time") {
+      content += moment().format(argument ?? "HH:mm");
+    } else {
+      content += variables.get(name) ?? placeholder;
+    }
+  }
+  content += template.slice(lastIndex);
+  return { content, cursor };
+}
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/** The grammar of Luhmann IDs: components alternate between numbers and
+ * letters, e.g: 21/3d7a. Every ID is parsed and built through this. */
+class IDScheme {
+  readonly pattern: string;
+  private options: IDSchemeOptions;
+  private componentRegex: RegExp;
+  private fileRegexes: Map<string, RegExp> = new Map();
+
+  constructor(options: IDSchemeOptions) {
+    this.options = options;
+    const letters = options.idLetterCase == "upper" ? "A-Z" : "a-z";
+    const component = `(?:[0-9]+|[${letters}]+)`;
+    const delimiter = escapeRegExp(options.idDelimiter);
+    this.componentRegex = new RegExp(`[0-9]+|[${letters}]+`, "g");
+    // Only IDs the way `format` writes them, so one ID has one spelling
+    if (!delimiter) {
+      this.pattern = `${component}+`;
+    } else if (options.idDelimiterPlacement == "all") {
+      this.pattern = `${component}(?:${delimiter}${component})*`;
+    } else {
+      // After the second component, only components of the same type are
+      // delimited
+      const numberRun = `[0-9]+(?:${delimiter}[0-9]+)*`;
+      const letterRun = `[${letters}]+(?:${delimiter}[${letters}]+)*`;
+      this.pattern = `${component}(?:${delimiter}(?:${numberRun}|${letterRun})+)?`;
+    }
+  }
+
+  /** Matches a filename and captures its ID according to the matching rule */
+  fileRegex(matchRule: string, separator: string): RegExp {
+    const key = `${matchRule}:${separator}`;
+    let regex = this.fileRegexes.get(key);
+    if (regex == null) {
+      switch (matchRule) {
+        case "strict":
+          regex = new RegExp(`^(${this.pattern})$`);
+          break;
+        case "separator":
+          regex = new RegExp(`^(${this.pattern})${escapeRegExp(separator)}.*`);
+          break;
+        default:
+          regex = new RegExp(`^(${this.pattern}).*`);
+      }
+      this.fileRegexes.set(key, regex);
+    }
+    return regex;
+  }
+
+  parse(id: string): string[] {
+    return id.match(this.componentRegex) ?? [];
+  }
+
+  format(parts: string[]): string {
+    const { idDelimiter, idDelimiterPlacement } = this.options;
+    return parts
+      .map((part, i) => {
+        if (i == 0) {
+          return part;
+        }
+        // Two components of the same type can only be told apart by a delimiter
+        const needsDelimiter =
+          idDelimiterPlacement == "all" ||
+          i == 1 ||
+          this.typeOf(part) == this.typeOf(parts[i - 1]);
+        return (needsDelimiter ? idDelimiter : "") + part;
+      })
+      .join("");
+  }
+
+  typeOf(component: string): IDComponentType {
+    return /^[0-9]+$/.test(component) ? "number" : "letter";
+  }
+
+  /** Position of a component among its siblings, e.g: 3 -> 3, c -> 3, aa -> 27 */
+  componentToIndex(component: string): number {
+    if (this.typeOf(component) == "number") {
+      return parseInt(component);
+    }
+    return component
+      .toLowerCase()
+      .split("")
+      .reduce((index, char) => index * 26 + char.charCodeAt(0) - 96, 0);
+  }
+
+  componentAt(type: IDComponentType, index: number): string {
+    if (type == "number") {
+      return index.toString().padStart(this.options.idNumberPadding, "0");
+    }
+    // Letters count like digits in base 26 without a zero: z is followed by aa
+    let component = "";
+    while (index > 0) {
+      component = String.fromCharCode(97 + ((index - 1) % 26)) + component;
+      index = Math.floor((index - 1) / 26);
+    }
+    return this.options.idLetterCase == "upper"
+      ? component.toUpperCase()
+      : component;
+  }
+
+  childType(parentID: string): IDComponentType {
+    const parts = this.parse(parentID);
+    const lastPart = parts.pop();
+    if (lastPart == null) {
+      return this.options.idFirstComponent;
+    }
+    // With a delimiter the second component repeats the type of the first,
+    // like Luhmann's 21/3d7a, and the alternation starts from there
+    if (parts.length == 0 && this.options.idDelimiter !== "") {
+      return this.typeOf(lastPart);
+    }
+    return this.typeOf(lastPart) == "number" ? "letter" : "number";
+  }
+
+  childAt(parentID: string, index: number): string {
+    return this.format([
+      ...this.parse(parentID),
+      this.componentAt(this.childType(parentID), index),
+    ]);
+  }
+
+  firstChild(parentID: string): string {
+    return this.childAt(parentID, 1);
+  }
+
+  /** Position of the ID among its siblings, 0 for an empty ID */
+  position(id: string): number {
+    const lastPart = this.parse(id).pop();
+    return lastPart == null ? 0 : this.componentToIndex(lastPart);
+  }
+
+  increment(id: string): string {
+    const parts = this.parse(id);
+    const lastPart = parts.pop();
+    if (lastPart == null) {
+      return this.firstChild(id);
+    }
+    const next = this.componentToIndex(lastPart) + 1;
+    return this.format([
+      ...parts,
+      this.componentAt(this.typeOf(lastPart), next),
+    ]);
+  }
+
+  parent(id: string): string {
+    return this.format(this.parse(id).slice(0, -1));
+  }
+
+  depth(id: string): number {
+    return this.parse(id).length;
+  }
+
+  isDescendant(id: string, ancestorID: string): boolean {
+    const parts = this.parse(id);
+    const ancestorParts = this.parse(ancestorID);
+    return (
+      parts.length > ancestorParts.length &&
+      ancestorParts.every((part, i) => parts[i] === part)
+    );
+  }
+
+  /** Sorts IDs in Luhmann order, e.g: 1, 1a, 1b, 1aa, 2, 10 */
+  compare(a: string, b: string): number {
+    const aParts = this.parse(a);
+    const bParts = this.parse(b);
+    for (let i = 0; i < Math.min(aParts.length, bParts.length); i++) {
+      const aType = this.typeOf(aParts[i]);
+      if (aType != this.typeOf(bParts[i])) {
+        return aType == "number" ? -1 : 1;
+      }
+      const diff =
+        this.componentToIndex(aParts[i]) - this.componentToIndex(bParts[i]);
+      if (diff != 0) {
+        return diff;
+      }
+    }
+    return aParts.length - bParts.length;
+  }
+}
+
 class LuhmanSettingTab extends PluginSettingTab {
   plugin: NewZettel;
 
@@ -82,6 +433,73 @@ class LuhmanSettingTab extends PluginSettingTab {
     this.plugin = plugin;
   }
 
+  /** Keeps the naming rule zettels were named with before the first of a
+   * series of changes, so they can still be found when converting them */
+  rememberNaming() {
+    const settings = this.plugin.settings;
+    if (settings.previousNaming == null) {
+      settings.previousNaming = {
+        matchRule: settings.matchRule,
+        separator: settings.separator,
+      };
+    }
+  }
+
+  displayBranchTemplates(containerEl: HTMLElement) {
+    new Setting(containerEl)
+      .setName("Branch Templates")
+      .setDesc(
+        "Use a different template for a zettel and everything under it, e.g: 1 → templates/literature.md. " +
+          "The most specific ID wins, other zettels use the template file above."
+      )
+      .addButton((button) =>
+        button.setButtonText("Add rule").onClick(async () => {
+          this.plugin.settings.branchTemplates = [
+            ...this.plugin.settings.branchTemplates,
+            { id: "", templateFile: "" },
+          ];
+          await this.plugin.saveSettings();
+          this.display();
+        })
+      );
+
+    this.plugin.settings.branchTemplates.forEach((rule, index) => {
+      new Setting(containerEl)
+        .setClass("luhman-branch-template")
+        .addText((text) =>
+          text
+            .setPlaceholder("Zettel ID")
+            .setValue(rule.id)
+            .onChange(async (value) => {
+              rule.id = value.trim();
+              await this.plugin.saveSettings();
+            })
+        )
+        .addText((text) =>
+          text
+            .setPlaceholder("eg. /template/literature.md")
+            .setValue(rule.templateFile)
+            .onChange(async (value) => {
+              rule.templateFile = value;
+              await this.plugin.saveSettings();
+            })
+        )
+        .addExtraButton((button) =>
+          button
+            .setIcon("trash")
+            .setTooltip("Remove rule")
+            .onClick(async () => {
+              this.plugin.settings.branchTemplates =
+                this.plugin.settings.branchTemplates.filter(
+                  (_, i) => i != index
+                );
+              await this.plugin.saveSettings();
+              this.display();
+            })
+        );
+    });
+  }
+
   display(): void {
     const { containerEl } = this;
     const {
@@ -105,21 +523,108 @@ class LuhmanSettingTab extends PluginSettingTab {
       .setDesc(
         "Strict means filenames consist of only an ID. " +
           "Separator means the ID must be followed by the separator. " +
-          "Fuzzy treats the first non-alphanumeric character as the end of the ID."
+          "Fuzzy treats the first non-alphanumeric character as the end of the ID. " +
+          "Frontmatter reads the ID from a frontmatter field, so filenames can be anything."
       )
       .addDropdown((setting) =>
         setting
           .addOption("strict", "Strict")
           .addOption("separator", "Separator")
           .addOption("fuzzy", "Fuzzy")
+          .addOption("frontmatter", "Frontmatter")
           .setValue(matchRule)
           .onChange(async (value) => {
+            this.rememberNaming();
             this.plugin.settings.matchRule = value;
             await this.plugin.saveSettings();
             this.display();
           })
         );
 
+    new Setting(containerEl)
+      .setName("ID component delimiter")
+      .setDesc(
+        "Placed between the components of an ID, e.g: '/' for 21/3d7a or '.' for 1.2a. " +
+          "Leave empty for IDs like 12a3. " +
+          "With a delimiter, the second component has the same type as the first. " +
+          "Note that filenames can't contain '/'."
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder("No delimiter")
+          .setValue(this.plugin.settings.idDelimiter)
+          .onChange(async (value) => {
+            this.plugin.settings.idDelimiter = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Delimiter placement")
+      .setDesc(
+        "Put the delimiter between all components (1.2.a) or only after the first one (1.2a)"
+      )
+      .addDropdown((setting) =>
+        setting
+          .addOption("all", "Between all components")
+          .addOption("first", "After the first component")
+          .setValue(this.plugin.settings.idDelimiterPlacement)
+          .onChange(async (value) => {
+            this.plugin.settings.idDelimiterPlacement =
+              value as IDSchemeOptions["idDelimiterPlacement"];
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("First ID component")
+      .setDesc(
+        "Whether top level IDs are numbers (1, 2, 3) or letters (a, b, c)"
+      )
+      .addDropdown((setting) =>
+        setting
+          .addOption("number", "Number")
+          .addOption("letter", "Letter")
+          .setValue(this.plugin.settings.idFirstComponent)
+          .onChange(async (value) => {
+            this.plugin.settings.idFirstComponent = value as IDComponentType;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Letter case")
+      .setDesc("Case of the letter components of IDs")
+      .addDropdown((setting) =>
+        setting
+          .addOption("lower", "Lowercase (1a)")
+          .addOption("upper", "Uppercase (1A)")
+          .setValue(this.plugin.settings.idLetterCase)
+          .onChange(async (value) => {
+            this.plugin.settings.idLetterCase =
+              value as IDSchemeOptions["idLetterCase"];
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Number padding")
+      .setDesc(
+        "Pad numbers in new IDs with zeros to this many digits, e.g: 01a"
+      )
+      .addDropdown((setting) =>
+        setting
+          .addOption("0", "No padding")
+          .addOption("2", "2 digits")
+          .addOption("3", "3 digits")
+          .addOption("4", "4 digits")
+          .setValue(this.plugin.settings.idNumberPadding.toString())
+          .onChange(async (value) => {
+            this.plugin.settings.idNumberPadding = parseInt(value);
+            await this.plugin.saveSettings();
+          })
+      );
+
     new Setting(containerEl.createDiv())
       .setName("Use a custom template")
       .setDesc(
@@ -137,7 +642,9 @@ class LuhmanSettingTab extends PluginSettingTab {
       new Setting(containerEl)
         .setName("Template File")
         .setDesc(
-          "Set the path to a template file that is used during the creation of a new note (with file extension). The template supported placeholders are {{title}} and {{link}} these are both space-sensitive and case-sensitive."
+          "Set the path to a template file that is used during the creation of a new note (with file extension). " +
+            "Supported placeholders are {{title}}, {{link}}, {{id}}, {{parent_id}}, {{parent_title}}, {{date}}, {{date:FORMAT}}, {{time}}, {{selection}}, {{siblings}} and {{children}}. " +
+            "{{cursor}} marks where the cursor is placed. Placeholders are space-sensitive and case-sensitive."
         )
         .addText((setting: Setting) => {
           setting
@@ -174,9 +681,43 @@ class LuhmanSettingTab extends PluginSettingTab {
             this.display();
           })
         );
+
+      new Setting(containerEl)
+        .setName("Other Required Template Tags")
+        .setDesc(
+          "Comma separated placeholders the template file must contain, e.g: id, date"
+        )
+        .addText((text) =>
+          text
+            .setPlaceholder("eg. id, parent_title")
+            .setValue(this.plugin.settings.templateRequiredPlaceholders)
+            .onChange(async (value) => {
+              this.plugin.settings.templateRequiredPlaceholders = value;
+              await this.plugin.saveSettings();
+            })
+        );
+
+      this.displayBranchTemplates(containerEl);
+    }
+
+    if (matchRule === "frontmatter") {
+      new Setting(containerEl)
+        .setName("ID field")
+        .setDesc(
+          "Frontmatter field holding the ID, e.g: id: 21/3d7a. New zettels are named after their title."
+        )
+        .addText((text) =>
+          text
+            .setPlaceholder("id")
+            .setValue(this.plugin.settings.idField)
+            .onChange(async (value) => {
+              this.plugin.settings.idField = value.trim() || "id";
+              await this.plugin.saveSettings();
+            })
+        );
     }
 
-    if (matchRule !== "strict") {
+    if (matchRule !== "strict" && matchRule !== "frontmatter") {
       new Setting(containerEl)
         .setName("Add titles automatically")
         .setDesc(
@@ -215,7 +756,7 @@ class LuhmanSettingTab extends PluginSettingTab {
     }
 
     const useSeparator =
-      matchRule !== "strict" && (addTitle || matchRule === "separator");
+      (matchRule === "fuzzy" && addTitle) || matchRule === "separator";
 
     if (useSeparator) {
       new Setting(containerEl)
@@ -229,12 +770,65 @@ class LuhmanSettingTab extends PluginSettingTab {
             .setPlaceholder("Enter your separator")
             .setValue(separator)
             .onChange(async (value) => {
+              this.rememberNaming();
               this.plugin.settings.separator = value;
               await this.plugin.saveSettings();
             })
         );
     }
 
+    const { previousNaming } = this.plugin.settings;
+    new Setting(containerEl)
+      .setName("Convert zettels to the naming rule")
+      .setDesc(
+        (previousNaming
+          ? `The naming rule changed from ${previousNaming.matchRule} with "${previousNaming.separator}" as separator. `
+          : "") +
+          "Renames every zettel to match the rule, taking titles from the H1 or alias. Shows a preview first."
+      )
+      .addButton((button) =>
+        button
+          .setButtonText("Convert")
+          .onClick(() => this.plugin.convertToNamingRule())
+      );
+
+    new Setting(containerEl)
+      .setName("Insert Zettel Link format")
+      .setDesc(
+        "How the Insert Zettel Link command links notes. Selected text always becomes the alias of the link. " +
+          "The filename format adds the title as alias if 'Use title alias in created link' is on."
+      )
+      .addDropdown((setting) =>
+        setting
+          .addOption("filename", "Filename")
+          .addOption("id", "ID as alias")
+          .addOption("title", "Title as alias")
+          .setValue(this.plugin.settings.insertLinkFormat)
+          .onChange(async (value) => {
+            this.plugin.settings.insertLinkFormat = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Search note content")
+      .setDesc(
+        "Also search the first paragraph of notes when looking for a zettel, besides the ID, title and aliases"
+      )
+      .addToggle((setting) =>
+        setting
+          .setValue(this.plugin.settings.searchNoteBody)
+          .onChange(async (value) => {
+            this.plugin.settings.searchNoteBody = value;
+            await this.plugin.saveSettings();
+            if (value) {
+              this.plugin.zettelIndex
+                .loadExcerpts()
+                .catch((err) => console.error(err));
+            }
+          })
+      );
+
     new Setting(containerEl)
       .setName("Insert link in parent")
       .setDesc("When creating a child zettel, insert a link to the child in the parent zettel")
@@ -253,81 +847,182 @@ class LuhmanSettingTab extends PluginSettingTab {
           this.plugin.settings.insertLinkInChild = value;
           await this.plugin.saveSettings();
         }));
+
+    new Setting(containerEl)
+      .setName("Maintain navigation links")
+      .setDesc(
+        "Keep a block with links to the parent, previous and next siblings and children at the end of each zettel, " +
+          "updated whenever zettels are created, moved or deleted. Only the text between the block's markers is changed."
+      )
+      .addToggle((setting) =>
+        setting
+          .setValue(this.plugin.settings.maintainNavBlock)
+          .onChange(async (value) => {
+            this.plugin.settings.maintainNavBlock = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Show breadcrumbs")
+      .setDesc(
+        "Show the ancestors of a zettel above the note, with buttons for the previous and next sibling and the number of children"
+      )
+      .addToggle((setting) =>
+        setting
+          .setValue(this.plugin.settings.showBreadcrumbs)
+          .onChange(async (value) => {
+            this.plugin.settings.showBreadcrumbs = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Compile folder")
+      .setDesc(
+        "Folder for the documents written by Compile Branch. Notes in it are never zettels, so they don't show up as duplicates."
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder(DEFAULT_SETTINGS.compileFolder)
+          .setValue(this.plugin.settings.compileFolder)
+          .onChange(async (value) => {
+            this.plugin.settings.compileFolder =
+              value.trim() === ""
+                ? DEFAULT_SETTINGS.compileFolder
+                : normalizePath(value.trim());
+            await this.plugin.saveSettings();
+          })
+      );
   }
 }
 
 export default class NewZettel extends Plugin {
   settings: LuhmanSettings = DEFAULT_SETTINGS;
+  idScheme = new IDScheme(DEFAULT_SETTINGS);
+  zettelIndex = new ZettelIndex(this);
+  /** IDs written to frontmatter that the metadata cache hasn't parsed yet */
+  pendingIDs: Map<TFile, string> = new Map();
+  private restructuring = false;
+  private pendingNavUpdates: Set<string> = new Set();
+  flushNavUpdates = debounce(
+    () => {
+      // Wait until a restructure is done, its intermediate states don't matter
+      if (this.restructuring) {
+        this.flushNavUpdates();
+      } else {
+        this.updateNavBlocks();
+      }
+    },
+    1000,
+    true
+  );
+  refreshBreadcrumbs = debounce(() => this.renderBreadcrumbs(), 300, true);
+  refreshTreeViews = debounce(
+    () => {
+      for (const view of this.treeViews()) {
+        view.refresh();
+      }
+    },
+    300,
+    true
+  );
 
   async loadSettings() {
     this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+    this.idScheme = new IDScheme(this.settings);
+    this.zettelIndex.invalidate();
   }
 
   async saveSettings() {
     await this.saveData(this.settings);
+    // The ID format, matching rule or separator may have changed what
+    // counts as an ID
+    this.idScheme = new IDScheme(this.settings);
+    this.zettelIndex.invalidate();
+    this.refreshBreadcrumbs();
   }
 
-  incrementStringIDComponent(id: string): string {
-    const comps = id.split("");
-    const last = comps.pop()!;
-    return comps.concat([lettersIDComponentSuccessors[last]]).join("");
+  incrementID(id: string): string {
+    return this.idScheme.increment(id);
   }
 
-  incrementNumberIDComponent(id: string): string {
-    return (parseInt(id) + 1).toString();
+  parentID(id: string): string {
+    return this.idScheme.parent(id);
   }
 
-  isNumber(string: string): boolean {
-    return /^\d+$/.test(string);
+  firstChildOf(parentID: string): string {
+    return this.idScheme.firstChild(parentID);
   }
 
-  incrementIDComponent(id: string): string {
-    if (this.isNumber(id)) {
-      return this.incrementNumberIDComponent(id);
-    } else {
-      return this.incrementStringIDComponent(id);
-    }
+  childIDAt(parentID: string, index: number): string {
+    return this.idScheme.childAt(parentID, index);
   }
 
-  incrementID(id: string): string {
-    const parts = id.match(idOnlyRegex)!;
-    const lastPart = parts.pop()!;
-    return parts.concat([this.incrementIDComponent(lastPart)]).join("");
+  isDescendantID(id: string, ancestorID: string): boolean {
+    return this.idScheme.isDescendant(id, ancestorID);
   }
 
-  parentID(id: string): string {
-    const parts = id.match(idOnlyRegex)!;
-    if (parts) {
-      parts.pop();
-      return parts.join("");
-    } else {
-      return "";
-    }
+  compareIDs(a: string, b: string): number {
+    return this.idScheme.compare(a, b);
   }
 
-  nextComponentOf(id: string): string {
-    const parts = id.match(idOnlyRegex)!;
-    const lastPart = parts.pop()!;
-    if (this.isNumber(lastPart)) {
-      return "a";
-    } else {
-      return "1";
+  sortZettels(files: TFile[]): TFile[] {
+    return files.sort((a, b) =>
+      this.compareIDs(this.zettelID(a), this.zettelID(b))
+    );
+  }
+
+  usesFrontmatterIDs(): boolean {
+    return this.settings.matchRule == "frontmatter";
+  }
+
+  /** The ID of a zettel, from its filename or its frontmatter depending on
+   * the matching rule. Empty if the file isn't a zettel. */
+  zettelID(file: TFile): string {
+    if (!this.usesFrontmatterIDs()) {
+      return this.fileToId(file.basename);
     }
+    return this.pendingIDs.get(file) ?? this.frontmatterID(file);
   }
 
-  firstChildOf(parentID: string): string {
-    return parentID + this.nextComponentOf(parentID);
+  frontmatterID(file: TFile): string {
+    const value =
+      this.app.metadataCache.getFileCache(file)?.frontmatter?.[
+        this.settings.idField
+      ];
+    // Unquoted numbers lose digits in YAML (1.10 is 1.1), so only strings count
+    const id = typeof value === "string" ? value.trim() : "";
+    return this.idScheme.fileRegex("strict", "").test(id) ? id : "";
   }
 
+  /** Writes the ID to the frontmatter field, or removes the field for an
+   * empty ID. The metadata cache catches up later, until then the ID is
+   * kept in `pendingIDs`. */
+  async setFrontmatterID(file: TFile, id: string) {
+    const oldID = this.zettelID(file);
+    const field = this.settings.idField;
+    await this.app.fileManager.processFrontMatter(file, (frontMatter) => {
+      if (id === "") {
+        delete frontMatter[field];
+      } else {
+        frontMatter[field] = id;
+      }
+    });
+    this.pendingIDs.set(file, id);
+    this.zettelIndex.update(file);
+    this.queueNavUpdate(oldID);
+    this.queueNavUpdate(id);
+  }
+
+  /** The ID in a filename. Always empty when IDs are in frontmatter. */
   fileToId(filename: string): string {
-    const ruleRegexes: Record<string, RegExp> = {
-      strict: /^((?:[0-9]+|[a-z]+)+)$/,
-      separator: new RegExp(
-        `^((?:[0-9]+|[a-z]+)+)${this.settings.separator}.*`
-      ),
-      fuzzy: /^((?:[0-9]+|[a-z]+)+).*/,
-    };
-    const match = filename.match(ruleRegexes[this.settings.matchRule]);
+    if (this.usesFrontmatterIDs()) {
+      return "";
+    }
+    const match = filename.match(
+      this.idScheme.fileRegex(this.settings.matchRule, this.settings.separator)
+    );
     if (match) {
       return match[1];
     }
@@ -335,13 +1030,21 @@ export default class NewZettel extends Plugin {
   }
 
   idExists(id: string): boolean {
-    const fileMatcher = (file: TFile) => this.fileToId(file.basename) === id;
-    return this.app.vault.getMarkdownFiles().filter(fileMatcher).length != 0;
+    return this.zettelIndex.has(id);
   }
 
-  firstAvailableID(startingID: string): string {
+  /** Skips IDs that are taken, or free but still have children, and any in
+   * `reserved` */
+  firstAvailableID(
+    startingID: string,
+    reserved: Set<string> = new Set()
+  ): string {
     let nextID = startingID;
-    while (this.idExists(nextID)) {
+    while (
+      this.idExists(nextID) ||
+      reserved.has(nextID) ||
+      this.zettelIndex.childIDs(nextID).length > 0
+    ) {
       nextID = this.incrementID(nextID);
     }
     return nextID;
@@ -349,14 +1052,14 @@ export default class NewZettel extends Plugin {
 
   makeNoteForNextSiblingOf(sibling: TFile): string {
     const nextID = this.firstAvailableID(
-      this.incrementID(this.fileToId(sibling.basename))
+      this.incrementID(this.zettelID(sibling))
     );
     return nextID;
   }
 
   makeNoteForNextChildOf(parent: TFile): string {
     const childID = this.firstAvailableID(
-      this.firstChildOf(this.fileToId(parent.basename))
+      this.firstChildOf(this.zettelID(parent))
     );
     return childID;
   }
@@ -365,14 +1068,17 @@ export default class NewZettel extends Plugin {
     path: string,
     title: string,
     fileLink: string,
-    placeCursorAtStartOfContent: boolean,
     openZettel = false,
     successCallback: () => void = () => {
       return;
-    }
+    },
+    selection = "",
+    id = this.pathToId(path),
+    requirePlaceholders = true,
+    preparation?: ZettelPreparation
   ) {
-    const useTemplate =
-      this.settings.customTemplate && this.settings.templateFile.trim() != "";
+    const templateFile = this.templateFileFor(id);
+    const useTemplate = this.settings.customTemplate && templateFile != "";
     const app = this.app;
     let titleContent = null;
     if (title && title.length > 0) {
@@ -380,60 +1086,68 @@ export default class NewZettel extends Plugin {
     } else {
       titleContent = "";
     }
+    const linkContent = this.settings.insertLinkInChild ? fileLink : "";
 
-    let file = null;
-    const backlinkRegex = /{{link}}/g;
-    const titleRegex = /{{title}}/g;
-  
+    let template = "";
     if (useTemplate) {
-      let template_content = "";
       try {
-        template_content = await this.app.vault.adapter.read(
-          this.settings.templateFile.trim()
-        );
+        template = await this.app.vault.adapter.read(templateFile);
       } catch (err) {
         new Notice(
-          `[LUHMAN] Couldn't read template file. Make sure the path and file are valid/correct. Current setting: ${this.settings.templateFile.trim()}`,
+          `[LUHMAN] Couldn't read template file. Make sure the path and file are valid/correct. Current setting: ${templateFile}`,
           15000
         );
         return;
       }
 
-      const testTitle =
-        this.settings.templateRequireTitle == false ||
-        titleRegex.test(template_content);
-      const testLink =
-        this.settings.templateRequireLink == false ||
-        backlinkRegex.test(template_content);
-      if (testTitle == false || testLink == false) {
+      const missing = this.missingTemplatePlaceholders(template).map(
+        (name) => `{{${name}}}`
+      );
+      if (requirePlaceholders && missing.length > 0) {
+        const missingText =
+          missing.length > 1
+            ? missing.slice(0, -1).join(", ") + " and " + missing.last()
+            : missing[0];
         new Notice(
-          `[LUHMAN] Template Malformed. Missing {{${testTitle ? "" : "title"}${
-            testTitle == false && testLink == false ? "}} and {{" : ""
-          }${testLink ? "" : "link"}}} placeholder. Please add ${
-            testTitle == false && testLink == false ? "them" : "it"
+          `[LUHMAN] Template Malformed. Missing ${missingText} placeholder. Please add ${
+            missing.length > 1 ? "them" : "it"
           } to the template and try again...`,
           15000
         );
         return;
       }
-
-      const linkContent = this.settings.insertLinkInChild ? fileLink : "";
-      const file_content = template_content
-        .replace(titleRegex, titleContent)
-        .replace(backlinkRegex, linkContent);
-      file = await this.app.vault.create(path, file_content);
-      successCallback();
     } else {
-      const linkContent = this.settings.insertLinkInChild ? fileLink : "";
-      let fullContent = titleContent;
+      template = "{{title}}";
       if (linkContent.trim()) {
-        fullContent += "\n\n" + linkContent;
+        template += "\n\n{{link}}";
       }
-      file = await this.app.vault.create(path, fullContent);
-      successCallback();
     }
 
-    // Rest of the method remains the same...
+    const variables = await this.templateVariables(
+      id,
+      titleContent,
+      linkContent,
+      selection
+    );
+    const { content, cursor } = renderTemplate(template, variables);
+    // Only once the template is known to work
+    if (preparation != null && !(await preparation.run())) {
+      return;
+    }
+    let file: TFile;
+    try {
+      file = await this.app.vault.create(path, content);
+    } catch (err) {
+      console.error(err);
+      new Notice(`[LUHMAN] Couldn't create ${path}: ${err}`, 15000);
+      await preparation?.revert();
+      return;
+    }
+    if (this.usesFrontmatterIDs()) {
+      await this.setFrontmatterID(file, id);
+    }
+    successCallback();
+
     if (this.settings.addAlias && file) {
       await this.app.fileManager.processFrontMatter(file, (frontMatter) => {
         frontMatter = frontMatter || {};
@@ -456,37 +1170,95 @@ export default class NewZettel extends Plugin {
       return;
     }
 
-    if (
-      placeCursorAtStartOfContent &&
-      (!this.settings.customTemplate || this.settings.templateFile.trim() == "")
-    ) {
-      let line = 2;
-      if (this.settings.addAlias) {
-        line += 4;
-      }
-      if (this.settings.insertLinkInChild && linkContent.trim()) {
-        line += 2; 
-      }
-      const position: EditorPosition = { line, ch: 0 };
-      editor.setCursor(position);
+    if (cursor != null) {
+      // Frontmatter added after creation shifts everything below it
+      const shift = editor.getValue().length - content.length;
+      editor.setCursor(editor.offsetToPos(cursor + shift));
     } else {
       editor.exec("goEnd");
     }
   }
 
-  isZettelFile(name: string): boolean {
-    const mdRegex = /(.*)\.md$/;
-    const matchedName = mdRegex.exec(name)?.[1] || null;
-    return matchedName != null && this.fileToId(matchedName) !== "";
+  /** The template of the closest branch rule for the ID, if any */
+  templateFileFor(id: string): string {
+    const rule = this.settings.branchTemplates
+      .filter(
+        (rule) =>
+          rule.id !== "" &&
+          rule.templateFile.trim() != "" &&
+          (rule.id === id || this.isDescendantID(id, rule.id))
+      )
+      .sort((a, b) => this.idScheme.depth(b.id) - this.idScheme.depth(a.id))
+      .first();
+    return (rule?.templateFile ?? this.settings.templateFile).trim();
+  }
+
+  missingTemplatePlaceholders(template: string): string[] {
+    const required = this.settings.templateRequiredPlaceholders
+      .split(",")
+      .map((name) => name.trim())
+      .filter((name) => name !== "");
+    if (this.settings.templateRequireLink) {
+      required.unshift("link");
+    }
+    if (this.settings.templateRequireTitle) {
+      required.unshift("title");
+    }
+    return required.filter(
+      (name) =>
+        !template.includes(`{{${name}}}`) && !template.includes(`{{${name}:`)
+    );
+  }
+
+  async templateVariables(
+    id: string,
+    title: string,
+    link: string,
+    selection: string
+  ): Promise<Map<string, string>> {
+    const parentID = this.parentID(id);
+    const parent = this.zettelIndex.filesWithID(parentID).first();
+    const parentTitle = parent ? await this.getNoteTitle(parent) : null;
+    const linkList = (files: TFile[]) =>
+      this.sortZettels(files)
+        .map((file) => `- [[${file.basename}]]`)
+        .join("\n");
+    return new Map([
+      ["title", title],
+      ["link", link],
+      ["id", id],
+      ["parent_id", parentID],
+      ["parent_title", parentTitle ?? ""],
+      ["selection", selection],
+      [
+        "siblings",
+        linkList(
+          this.getDirectChildZettels(parentID).filter(
+            (file) => this.zettelID(file) !== id
+          )
+        ),
+      ],
+      ["children", linkList(this.getDirectChildZettels(id))],
+    ]);
+  }
+
+  isZettelFile(file: TFile): boolean {
+    return file.extension == "md" && this.zettelID(file) !== "";
   }
 
-  makeNoteFunction(idGenerator: (file: TFile) => string, openNewFile = true) {
+  /** Asks for a title unless text is selected, then creates the zettel.
+   * `preparation` runs once the title and template are known to work. */
+  async makeNoteFunction(
+    idGenerator: (file: TFile) => string,
+    openNewFile = true,
+    preparation?: ZettelPreparation
+  ) {
     const file = this.app.workspace.getActiveFile();
     if (file == null) {
       return;
     }
-    if (this.isZettelFile(file.name)) {
-      const fileID = this.fileToId(file.basename);
+    if (this.isZettelFile(file)) {
+      const fileID = this.zettelID(file);
       const fileLink = "[[" + file.basename + "]]";
 
       const editor =
@@ -498,78 +1270,57 @@ export default class NewZettel extends Plugin {
       const selection = editor.getSelection();
 
       const nextID = idGenerator.bind(this, file)();
+      const folder = this.app.fileManager.getNewFileParent(file.path).path;
       const nextPath = (title: string) =>
         file?.path
-          ? this.app.fileManager.getNewFileParent(file.path).path +
-            "/" +
-            nextID +
-            (this.settings.addTitle ? this.settings.separator + title : "") +
-            ".md"
+          ? folder + "/" + this.zettelFilename(nextID, title, folder) + ".md"
           : "";
       const useLinkAlias = this.settings.useLinkAlias;
       const newLink = (title: string) => {
         const alias = useLinkAlias ? `|${title}` : "";
 
-        return `[[${nextID}${
-          this.settings.addTitle ? this.settings.separator + title : ""
-        }${alias}]]`;
+        return `[[${this.zettelFilename(nextID, title, folder)}${alias}]]`;
       };
 
       if (selection) {
-        const selectionTrimStart = selection.trimStart();
-        const selectionTrimEnd = selectionTrimStart.trimEnd();
-        const spaceBefore = selection.length - selectionTrimStart.length;
-        const spaceAfter = selectionTrimStart.length - selectionTrimEnd.length;
+        const selectionTrimEnd = selection.trim();
         const title = selectionTrimEnd
           .split(/\s+/)
           .map((w) => w[0].toUpperCase() + w.slice(1))
           .join(" ");
-        const selectionPos = editor!.listSelections()[0];
-        /* By default the anchor is what ever position the selection started
-           how ever replaceRange does not accept it both ways and
-           gets weird if we just pass in the anchor then the head
-           so here we create a vertual anchor and head position to pass in */
-        const anchorCorrect =
-          selectionPos.anchor.line == selectionPos.head.line // If the anchor and head are on the same line
-            ? selectionPos.anchor.ch <= selectionPos.head.ch // Then if anchor is before the head
-            : selectionPos.anchor.line < selectionPos.head.line; // else they are not on the same line and just check if anchor is before head
-
-        const virtualAnchor = anchorCorrect
-          ? selectionPos.anchor
-          : selectionPos.head;
-        const virtualHead = anchorCorrect
-          ? selectionPos.head
-          : selectionPos.anchor;
-
-        this.makeNote(
+        const replaceSelection = this.selectionReplacer(editor);
+
+        await this.makeNote(
           nextPath(title),
           title,
           fileLink,
-          true,
           openNewFile,
           () => {
             // Only insert link in parent if the setting is enabled
             if (this.settings.insertLinkInParent) {
-              editor!.replaceRange(
-                " ".repeat(spaceBefore) + newLink(title) + " ".repeat(spaceAfter),
-                virtualAnchor,
-                virtualHead
-              );
+              replaceSelection(newLink(title));
             }
-          }
+          },
+          selectionTrimEnd,
+          nextID,
+          true,
+          preparation
         );
       } else {
         new NewZettelModal(
           this.app,
-          (title: string, options) => {
-            this.makeNote(
+          async (title: string, options) => {
+            await this.makeNote(
               nextPath(title),
               title,
               fileLink,
-              true,
               options.openNewZettel,
               // Only insert link in parent if the setting is enabled
-              this.settings.insertLinkInParent ? this.insertTextIntoCurrentNote(newLink(title)) : () => {}
+              this.settings.insertLinkInParent ? this.insertTextIntoCurrentNote(newLink(title)) : () => {},
+              "",
+              nextID,
+              true,
+              preparation
             );
           },
           {
@@ -584,425 +1335,4198 @@ export default class NewZettel extends Plugin {
     }
   }
 
-  async renameZettel(id: string, toId: string) {
-    const sep = this.settings.separator;
-    const zettel = this.app.vault
-      .getMarkdownFiles()
-      .filter((file) => this.fileToId(file.basename) === id)
-      .first();
-    if (zettel) {
-      const id = this.fileToId(zettel.basename);
-      const rest = zettel.basename.split(id)[1];
-      this.app.fileManager.renameFile(
-        zettel,
-        zettel.parent?.path + toId + rest + "." + zettel.extension
-      );
-    } else {
-      new Notice(`Couldn't find file for ID ${id}. ${checkSettingsMessage}`);
+  zettelPathForID(zettel: TFile, toId: string): string {
+    const id = this.zettelID(zettel);
+    const rest = zettel.basename.slice(id.length);
+    return normalizePath(
+      (zettel.parent?.path ?? "") + "/" + toId + rest + "." + zettel.extension
+    );
+  }
+
+  getSubtreeZettels(id: string): TFile[] {
+    return this.getZettels().filter((file) => {
+      const fileID = this.zettelID(file);
+      return fileID === id || this.isDescendantID(fileID, id);
+    });
+  }
+
+  /** Maps every zettel in the subtree of `fromID` to its ID under `toID`,
+   * keeping sibling positions at each level */
+  planSubtreeMove(fromID: string, toID: string): Map<TFile, string> {
+    const plan: Map<TFile, string> = new Map();
+    const scheme = this.idScheme;
+    const fromDepth = scheme.depth(fromID);
+    for (const file of this.getSubtreeZettels(fromID)) {
+      const parts = scheme.parse(this.zettelID(file));
+      let newID = toID;
+      for (const part of parts.slice(fromDepth)) {
+        newID = this.childIDAt(newID, scheme.componentToIndex(part));
+      }
+      plan.set(file, newID);
     }
+    return plan;
   }
 
-  async moveChildrenDown(id: string) {
-    const children = this.getDirectChildZettels(id);
-    for (const child of children) {
-      await this.moveZettelDown(this.fileToId(child.basename));
+  /** Shifts the run of siblings starting at `startID` down by one to make
+   * room for another zettel. IDs in `vacated` are treated as free. */
+  planSiblingShift(startID: string, vacated: Set<string>): Map<TFile, string> {
+    const run: string[] = [];
+    let id = startID;
+    while (this.idExists(id) && !vacated.has(id)) {
+      run.push(id);
+      id = this.incrementID(id);
+    }
+    const plan: Map<TFile, string> = new Map();
+    for (const siblingID of run) {
+      this.planSubtreeMove(siblingID, this.incrementID(siblingID)).forEach(
+        (newID, file) => plan.set(file, newID)
+      );
     }
+    return plan;
   }
 
-  async moveZettelDown(id: string) {
-    this.moveChildrenDown(id);
-    await this.renameZettel(id, this.firstAvailableID(id));
+  pathToId(path: string): string {
+    const filename = path.split("/").pop() ?? "";
+    return this.fileToId(filename.replace(/\.md$/, ""));
   }
 
-  async outdentZettel(id: string) {
-    const newID = this.incrementID(this.parentID(id));
-    if (this.idExists(newID)) {
-      await this.moveZettelDown(newID);
+  /** Turns a plan into renames, checking for collisions before any file is
+   * touched. Returns null if the plan can't be applied. `removed` zettels
+   * are about to be deleted and aren't in the way. */
+  planRenames(
+    plan: Map<TFile, string>,
+    removed: TFile[] = []
+  ): ZettelRename[] | null {
+    const renames = Array.from(plan.entries()).filter(
+      ([file, newID]) => this.zettelID(file) !== newID
+    );
+    const targetIDs = renames.map(([, newID]) => newID);
+    if (new Set(targetIDs).size != targetIDs.length) {
+      new Notice("Can't restructure zettels: two zettels would share an ID");
+      return null;
     }
-
-    for (const child of this.getDirectChildZettels(id)) {
-      const newChildID: string = this.firstAvailableID(
-        this.firstChildOf(newID)
+    const blocking = this.blockingZettel(targetIDs, [
+      ...Array.from(plan.keys()),
+      ...removed,
+    ]);
+    if (blocking) {
+      new Notice(
+        `Can't restructure zettels: "${blocking.basename}" is in the way`
       );
-      await this.renameZettel(this.fileToId(child.basename), newChildID);
+      return null;
     }
+    return renames.map(([file, newID]) =>
+      this.usesFrontmatterIDs()
+        ? { path: file.path, from: this.zettelID(file), to: newID }
+        : { from: file.path, to: this.zettelPathForID(file, newID) }
+    );
+  }
 
-    await this.renameZettel(id, newID);
+  /** A zettel that isn't in `moving` but already has one of `targetIDs` */
+  blockingZettel(targetIDs: string[], moving: TFile[]): TFile | undefined {
+    return this.getZettels().find(
+      (file) =>
+        targetIDs.includes(this.zettelID(file)) && !moving.includes(file)
+    );
   }
 
-  async onload() {
-    console.log("loading New Zettel");
-    this.loadSettings();
-    this.addSettingTab(new LuhmanSettingTab(this.app, this));
-    // this.app.workspace.onLayoutReady(this.initialize);
+  async executeRenames(renames: ZettelRename[]): Promise<boolean> {
+    return (
+      (await this.executeFileRenames(
+        renames.filter(({ path }) => path == null)
+      )) &&
+      (await this.executeIDChanges(renames.filter(({ path }) => path != null)))
+    );
+  }
 
-    this.addCommand({
-      id: "new-sibling-note",
-      name: "New Sibling Zettel Note",
-      icon: "file-symlink",
-      callback: () => {
-        this.makeNoteFunction(this.makeNoteForNextSiblingOf);
-      },
-    });
+  /** Rewrites the frontmatter ID of each file. Changes already made are
+   * reverted if one of them fails. */
+  async executeIDChanges(changes: ZettelRename[]): Promise<boolean> {
+    const files: TFile[] = [];
+    for (const { path, from } of changes) {
+      const file = this.app.vault.getAbstractFileByPath(path ?? "");
+      if (!(file instanceof TFile)) {
+        new Notice(`Can't restructure zettels: "${path}" no longer exists`);
+        return false;
+      }
+      if (this.zettelID(file) !== from) {
+        new Notice(`Can't restructure zettels: the ID of "${path}" changed`);
+        return false;
+      }
+      files.push(file);
+    }
 
-    this.addCommand({
-      id: "new-child-note",
-      name: "New Child Zettel Note",
-      icon: "file-down",
-      callback: () => {
-        this.makeNoteFunction(this.makeNoteForNextChildOf);
-      },
-    });
+    const done: number[] = [];
+    this.restructuring = true;
+    try {
+      for (let i = 0; i < files.length; i++) {
+        await this.setFrontmatterID(files[i], changes[i].to);
+        done.push(i);
+      }
+    } catch (err) {
+      console.error(err);
+      for (const i of done.reverse()) {
+        try {
+          await this.setFrontmatterID(files[i], changes[i].from);
+        } catch (rollbackErr) {
+          console.error(rollbackErr);
+        }
+      }
+      new Notice(
+        `[LUHMAN] Restructure failed and was rolled back: ${err}`,
+        15000
+      );
+      return false;
+    } finally {
+      this.restructuring = false;
+    }
+    for (const { from, to } of changes) {
+      this.queueNavUpdate(from);
+      this.queueNavUpdate(to);
+    }
+    return true;
+  }
 
-    this.addCommand({
-      id: "new-sibling-note-dont-open",
-      name: "New Sibling Zettel Note (Don't Open)",
-      icon: "file-symlink",
-      callback: () => {
-        this.makeNoteFunction(this.makeNoteForNextSiblingOf, false);
-      },
-    });
+  /** Renames files by path. If a file's new name or ID is still held by
+   * another file in the batch, every file goes through a temporary name
+   * first. Completed renames are rolled back if one of them fails. */
+  async executeFileRenames(renames: ZettelRename[]): Promise<boolean> {
+    const files: TFile[] = [];
+    for (const { from } of renames) {
+      const file = this.app.vault.getAbstractFileByPath(from);
+      if (!(file instanceof TFile)) {
+        new Notice(`Can't restructure zettels: "${from}" no longer exists`);
+        return false;
+      }
+      files.push(file);
+    }
+    const sources = new Set(renames.map(({ from }) => from));
+    const blocking = renames.find(
+      ({ to }) =>
+        !sources.has(to) && this.app.vault.getAbstractFileByPath(to) != null
+    );
+    if (blocking) {
+      new Notice(`Can't restructure zettels: "${blocking.to}" already exists`);
+      return false;
+    }
 
-    this.addCommand({
-      id: "new-child-note-dont-open",
-      name: "New Child Zettel Note (Don't Open)",
-      icon: "file-down",
-      callback: () => {
-        this.makeNoteFunction(this.makeNoteForNextChildOf, false);
-      },
+    const sourceIDCounts: Map<string, number> = new Map();
+    for (const { from } of renames) {
+      const id = this.pathToId(from);
+      sourceIDCounts.set(id, (sourceIDCounts.get(id) ?? 0) + 1);
+    }
+    const needsTemp = renames.some(({ from, to }) => {
+      const toID = this.pathToId(to);
+      const holders =
+        (sourceIDCounts.get(toID) ?? 0) -
+        (this.pathToId(from) === toID ? 1 : 0);
+      return (sources.has(to) && to !== from) || holders > 0;
     });
 
-    this.addCommand({
-      id: "insert-zettel-link",
-      name: "Insert Zettel Link",
-      icon: "link-2",
-      callback: async () => {
-        // let completion = (te)
-        const titles = await this.getAllNoteTitles();
-        new ZettelSuggester(
-          this.app,
-          titles,
-          this.currentlySelectedText(),
-          (file) => {
-            const doInsert = this.insertTextIntoCurrentNote(
-              `[[${file.basename}]]`
-            );
-            if (doInsert == undefined)
-              new Notice(
-                "Error inserting link, Code: 6a46de1d-a8da-4dae-af41-9d444eaf3d4d"
-              );
-            else doInsert();
-          }
-        ).open();
-      },
-    });
+    const done: { file: TFile; previousPath: string }[] = [];
+    const renameFile = async (file: TFile, path: string) => {
+      const previousPath = file.path;
+      await this.app.fileManager.renameFile(file, path);
+      done.push({ file, previousPath });
+    };
+    this.restructuring = true;
+    try {
+      if (needsTemp) {
+        for (const file of files) {
+          await renameFile(
+            file,
+            normalizePath(
+              (file.parent?.path ?? "") +
+                "/" +
+                TEMP_RENAME_PREFIX +
+                file.basename +
+                "." +
+                file.extension
+            )
+          );
+        }
+      }
+      for (let i = 0; i < files.length; i++) {
+        await renameFile(files[i], renames[i].to);
+      }
+    } catch (err) {
+      console.error(err);
+      for (const { file, previousPath } of done.reverse()) {
+        try {
+          await this.app.fileManager.renameFile(file, previousPath);
+        } catch (rollbackErr) {
+          console.error(rollbackErr);
+        }
+      }
+      new Notice(
+        `[LUHMAN] Restructure failed and was rolled back: ${err}`,
+        15000
+      );
+      return false;
+    } finally {
+      this.restructuring = false;
+    }
+    return true;
+  }
 
-    this.addCommand({
-      id: "open-zettel",
-      name: "Open Zettel",
-      icon: "folder-open",
-      callback: async () => {
-        const titles = await this.getAllNoteTitles();
+  /** Applies a planned restructure and records it in the rename journal.
+   * Returns false if nothing was renamed. */
+  async runRestructure(
+    description: string,
+    plan: Map<TFile, string>
+  ): Promise<boolean> {
+    const renames = this.planRenames(plan);
+    return renames != null && (await this.runRenames(description, renames));
+  }
 
-        new ZettelSuggester(
-          this.app,
-          titles,
-          this.currentlySelectedText(),
-          (file) => {
-            this.app.workspace.getLeaf().openFile(file);
-          }
-        ).open();
-      },
-    });
+  /** Runs renames from `planRenames` and journals them */
+  async runRenames(
+    description: string,
+    renames: ZettelRename[],
+    undoable = true
+  ): Promise<boolean> {
+    if (renames.length == 0) {
+      return false;
+    }
+    if (!(await this.executeRenames(renames))) {
+      return false;
+    }
+    await this.journalRenames(description, renames, [], undoable);
+    return true;
+  }
 
-    this.addCommand({
-      id: "open-parent-zettel",
-      name: "Open Parent Zettel",
-      icon: "folder-open",
-      callback: () => {
-        const file = this.currentFile();
-        if (file) {
-          const id = this.fileToId(file.basename);
-          const parentId = this.parentID(id);
-          if (parentId === "") {
-            new Notice(
-              `No parent found for "${file.basename}". ${checkSettingsMessage}`
-            );
-            return;
-          }
-          this.openZettel(parentId);
-        } else {
-          new Notice("No file open");
-        }
+  async journalRenames(
+    description: string,
+    renames: ZettelRename[],
+    created: string[] = [],
+    undoable = true
+  ) {
+    this.settings.renameJournal = [
+      ...this.settings.renameJournal,
+      {
+        description,
+        time: Date.now(),
+        renames,
+        ...(created.length > 0 ? { created } : {}),
+        ...(undoable ? {} : { undoable }),
       },
-    });
+    ].slice(-MAX_JOURNAL_ENTRIES);
+    await this.saveSettings();
+  }
 
-    this.addCommand({
-      id: "outdent-zettel",
-      name: "Outdent Zettel",
-      icon: "outdent",
-      callback: () => {
-        const file = this.currentFile();
-        if (file) {
-          this.outdentZettel(this.fileToId(file.basename));
+  async undoLastRestructure() {
+    const batch = this.settings.renameJournal.last();
+    if (batch == null) {
+      new Notice("Nothing to undo");
+      return;
+    }
+    // Undoing only the renames would leave the rest half restored, and
+    // batches before it can't be undone past it either
+    if (batch.undoable === false) {
+      new Notice(`Can't undo "${batch.description}"`);
+      return;
+    }
+    const reversed = batch.renames.map((rename) => ({
+      ...rename,
+      from: rename.to,
+      to: rename.from,
+    }));
+    // Zettels created since may hold the IDs the batch gave up
+    const { vault } = this.app;
+    const moving = [
+      ...reversed.map(({ path, from }) => path ?? from),
+      ...(batch.created ?? []),
+    ]
+      .map((path) => vault.getAbstractFileByPath(path))
+      .filter((file): file is TFile => file instanceof TFile);
+    const blocking = this.blockingZettel(
+      reversed
+        .map(({ path, to }) => (path == null ? this.pathToId(to) : to))
+        .filter((id) => id !== ""),
+      moving
+    );
+    if (blocking) {
+      new Notice(
+        `Can't undo "${batch.description}": "${
+          blocking.basename
+        }" now has ID ${this.zettelID(blocking)}`
+      );
+      return;
+    }
+    if (await this.executeRenames(reversed)) {
+      for (const path of batch.created ?? []) {
+        const file = vault.getAbstractFileByPath(path);
+        if (file instanceof TFile) {
+          await vault.trash(file, true);
         }
-      },
-    });
+      }
+      this.settings.renameJournal = this.settings.renameJournal.slice(0, -1);
+      await this.saveSettings();
+      new Notice(`Undid "${batch.description}"`);
+    }
   }
 
-  onunload() {
-    console.log("unloading New Zettel");
-    // this.initialize(true);
-  }
+  /** Plans moving the subtree of `id`, or returns null if it can't move there */
+  planZettelMove(
+    id: string,
+    targetID: string,
+    position: ZettelMovePosition
+  ): { newID: string; plan: Map<TFile, string> } | null {
+    if (targetID === id || this.isDescendantID(targetID, id)) {
+      new Notice(`Can't move ${id} into its own subtree`);
+      return null;
+    }
+    const vacated = new Set(
+      this.getSubtreeZettels(id).map((file) => this.zettelID(file))
+    );
+    let newID: string;
+    let plan: Map<TFile, string> = new Map();
+    if (position == "child") {
+      const children = this.sortZettels(
+        this.getDirectChildZettels(targetID).filter(
+          (file) => !vacated.has(this.zettelID(file))
+        )
+      );
+      const lastChild = children.last();
+      if (lastChild) {
+        const lastID = this.zettelID(lastChild);
+        newID = this.childIDAt(targetID, this.idScheme.position(lastID) + 1);
+      } else {
+        newID = this.firstAvailableID(this.firstChildOf(targetID));
+      }
+    } else {
+      newID = position == "before" ? targetID : this.incrementID(targetID);
+      plan = this.planSiblingShift(newID, vacated);
+    }
 
-  currentFile(): TFile | undefined {
-    return this.app.workspace.getActiveViewOfType(MarkdownView)?.file;
+    this.planSubtreeMove(id, newID).forEach((toID, file) =>
+      plan.set(file, toID)
+    );
+    return { newID, plan };
   }
 
-  openZettel(id: string) {
-    const file = this.app.vault
-      .getMarkdownFiles()
-      .filter((file) => this.fileToId(file.basename) == id)
-      .first();
-    if (file) {
-      this.app.workspace.getLeaf().openFile(file);
+  async moveZettel(id: string, targetID: string, position: ZettelMovePosition) {
+    const move = this.planZettelMove(id, targetID, position);
+    if (
+      move &&
+      (await this.runRestructure(`Move ${id} to ${move.newID}`, move.plan))
+    ) {
+      new Notice(`Moved ${id} to ${move.newID}`);
     }
   }
 
-  currentlySelectedText(): string | undefined {
-    return this.app.workspace
-      .getActiveViewOfType(MarkdownView)
-      ?.editor.getSelection();
+  previousSiblingID(id: string): string | null {
+    const index = this.idScheme.position(id);
+    return index > 1 ? this.childIDAt(this.parentID(id), index - 1) : null;
   }
 
-  insertTextIntoCurrentNote(text: string) {
-    const view = this.app.workspace.getActiveViewOfType(MarkdownView);
-
-    if (view) {
-      const editor = view!.editor;
-
-      let position: EditorPosition;
-      let prefix = "";
+  /** Shifts the siblings after `id` up by one to fill the gap it leaves */
+  planGapClose(id: string): Map<TFile, string> {
+    const plan: Map<TFile, string> = new Map();
+    let previousID = id;
+    let siblingID = this.incrementID(id);
+    while (this.idExists(siblingID)) {
+      this.planSubtreeMove(siblingID, previousID).forEach((newID, file) =>
+        plan.set(file, newID)
+      );
+      previousID = siblingID;
+      siblingID = this.incrementID(siblingID);
+    }
+    return plan;
+  }
 
-      if (editor.getSelection()) {
-        const selectionPos = editor.listSelections()[0];
-        const positionCH = Math.max(
-          selectionPos.head.ch,
-          selectionPos.anchor.ch
+  async indentZettel(id: string) {
+    const previousID = this.previousSiblingID(id);
+    if (previousID == null || !this.idExists(previousID)) {
+      new Notice(`Can't indent ${id}: it has no previous sibling`);
+      return;
+    }
+    const move = this.planZettelMove(id, previousID, "child");
+    if (move == null) {
+      return;
+    }
+    this.planGapClose(id).forEach((newID, file) => move.plan.set(file, newID));
+    if (await this.runRestructure(`Indent ${id}`, move.plan)) {
+      new Notice(`Indented ${id} to ${move.newID}`);
+    }
+  }
+
+  async swapZettelWithSibling(id: string, direction: "up" | "down") {
+    const siblingID =
+      direction == "up" ? this.previousSiblingID(id) : this.incrementID(id);
+    if (siblingID == null || !this.idExists(siblingID)) {
+      new Notice(
+        `Can't move ${id} ${direction}: it has no ${
+          direction == "up" ? "previous" : "next"
+        } sibling`
+      );
+      return;
+    }
+    const plan = this.planSubtreeMove(id, siblingID);
+    this.planSubtreeMove(siblingID, id).forEach((newID, file) =>
+      plan.set(file, newID)
+    );
+    if (await this.runRestructure(`Swap ${id} with ${siblingID}`, plan)) {
+      new Notice(`Swapped ${id} with ${siblingID}`);
+    }
+  }
+
+  describePlan(plan: Map<TFile, string>): string[] {
+    return this.sortZettels(Array.from(plan.keys()))
+      .filter((file) => this.zettelID(file) !== plan.get(file))
+      .map((file) => {
+        if (this.usesFrontmatterIDs()) {
+          return `${file.basename}: ${this.zettelID(file)} → ${plan.get(file)}`;
+        }
+        const newPath = this.zettelPathForID(file, plan.get(file) ?? "");
+        const newName = newPath.split("/").pop()?.replace(/\.md$/, "");
+        return `${file.basename} → ${newName}`;
+      });
+  }
+
+  newZettelBetween(openNewFile = true) {
+    const file = this.currentFile();
+    if (file == null || !this.isZettelFile(file)) {
+      new Notice("No zettel open");
+      return;
+    }
+    const id = this.zettelID(file);
+    const nextID = this.incrementID(id);
+    const makeNextSibling = (preparation?: ZettelPreparation) =>
+      this.makeNoteFunction(
+        (file: TFile) => this.incrementID(this.zettelID(file)),
+        openNewFile,
+        preparation
+      );
+    if (!this.idExists(nextID)) {
+      makeNextSibling();
+      return;
+    }
+
+    const shiftPlan = this.planSiblingShift(nextID, new Set());
+    new NewZettelBetweenModal(
+      this.app,
+      id,
+      this.makeNoteForNextChildOf(file),
+      nextID,
+      this.describePlan(shiftPlan),
+      (strategy) => {
+        if (strategy == "branch") {
+          this.makeNoteFunction(this.makeNoteForNextChildOf, openNewFile);
+        } else {
+          // Only once there's a title, so cancelling leaves no gap behind
+          makeNextSibling({
+            run: () => this.runRestructure(`Make room after ${id}`, shiftPlan),
+            revert: () => this.undoLastRestructure(),
+          });
+        }
+      }
+    ).open();
+  }
+
+  /** Schedules the nav blocks around the ID to be rewritten: its own,
+   * its parent's, its siblings' and its children's */
+  queueNavUpdate(id: string) {
+    if (!this.settings.maintainNavBlock || id === "") {
+      return;
+    }
+    const parentID = this.parentID(id);
+    for (const affectedID of [
+      id,
+      parentID,
+      ...this.zettelIndex.childIDs(parentID),
+      ...this.zettelIndex.childIDs(id),
+    ]) {
+      this.pendingNavUpdates.add(affectedID);
+    }
+    this.flushNavUpdates();
+  }
+
+  async updateNavBlocks() {
+    const ids = Array.from(this.pendingNavUpdates);
+    this.pendingNavUpdates.clear();
+    for (const id of ids) {
+      for (const file of this.zettelIndex.filesWithID(id)) {
+        await this.updateNavBlock(file);
+      }
+    }
+  }
+
+  /** The zettels before and after the ID among its siblings, skipping gaps */
+  siblingNeighbours(id: string): { previous?: TFile; next?: TFile } {
+    const siblings = this.sortZettels(
+      this.getDirectChildZettels(this.parentID(id))
+    );
+    const index = siblings.findIndex((file) => this.zettelID(file) === id);
+    return {
+      previous: index > 0 ? siblings[index - 1] : undefined,
+      next: index >= 0 ? siblings[index + 1] : undefined,
+    };
+  }
+
+  navBlock(id: string): string {
+    const link = (file: TFile) => `[[${file.basename}]]`;
+    const parent = this.zettelIndex.filesWithID(this.parentID(id)).first();
+    const { previous, next } = this.siblingNeighbours(id);
+    const children = this.sortZettels(this.getDirectChildZettels(id));
+
+    const lines: string[] = [];
+    if (parent) {
+      lines.push(`- Parent: ${link(parent)}`);
+    }
+    if (previous) {
+      lines.push(`- Previous: ${link(previous)}`);
+    }
+    if (next) {
+      lines.push(`- Next: ${link(next)}`);
+    }
+    if (children.length > 0) {
+      lines.push(`- Children: ${children.map(link).join(", ")}`);
+    }
+    return [NAV_BLOCK_START, ...lines, NAV_BLOCK_END].join("\n");
+  }
+
+  async updateNavBlock(file: TFile) {
+    const block = this.navBlock(this.zettelID(file));
+    const replaceBlock = (content: string) => {
+      if (NAV_BLOCK_REGEX.test(content)) {
+        return content.replace(NAV_BLOCK_REGEX, block);
+      }
+      return content.trim() === ""
+        ? block + "\n"
+        : content.trimEnd() + "\n\n" + block + "\n";
+    };
+    const content = await this.app.vault.read(file);
+    if (replaceBlock(content) !== content) {
+      await this.app.vault.process(file, replaceBlock);
+    }
+  }
+
+  /** A table of contents or keyword register of the branch, or of the
+   * whole vault if `branchID` is empty, between markers that let it be
+   * regenerated */
+  async indexBlock(kind: ZettelIndexKind, branchID: string): Promise<string> {
+    const zettels = this.sortZettels(
+      branchID === "" ? this.getZettels() : this.getSubtreeZettels(branchID)
+    );
+    const lines =
+      kind == "contents"
+        ? await this.contentsLines(zettels, branchID)
+        : this.registerLines(zettels);
+    const marker = branchID === "" ? kind : `${kind} ${branchID}`;
+    return [
+      `<!-- luhman:${marker} -->`,
+      ...lines,
+      `<!-- /luhman:${kind} -->`,
+    ].join("\n");
+  }
+
+  /** A nested list of the zettels in ID order */
+  async contentsLines(zettels: TFile[], branchID: string): Promise<string[]> {
+    const baseDepth = branchID === "" ? 1 : this.idScheme.depth(branchID);
+    const lines: string[] = [];
+    for (const file of zettels) {
+      const id = this.zettelID(file);
+      // An alias can't hold the characters that end a link
+      const title =
+        ((await this.zettelTitle(file)) ?? "")
+          .replace(/[#^|[\]]/g, "")
+          .trim() || id;
+      const indent = "  ".repeat(
+        Math.max(0, this.idScheme.depth(id) - baseDepth)
+      );
+      lines.push(`${indent}- [[${file.basename}|${title}]]`);
+    }
+    return lines;
+  }
+
+  /** Each keyword with the IDs of the zettels that have it, like Luhmann's
+   * Schlagwortregister */
+  registerLines(zettels: TFile[]): string[] {
+    const register: Map<string, TFile[]> = new Map();
+    for (const file of zettels) {
+      for (const keyword of this.keywordsOf(file)) {
+        register.set(keyword, [...(register.get(keyword) ?? []), file]);
+      }
+    }
+    return Array.from(register.keys())
+      .sort((a, b) => a.localeCompare(b))
+      .map((keyword) => {
+        const links = (register.get(keyword) ?? []).map(
+          (file) => `[[${file.basename}|${this.zettelID(file)}]]`
         );
-        position = { line: selectionPos.anchor.line, ch: positionCH + 1 };
-        prefix = " ";
+        return `- ${keyword}: ${links.join(", ")}`;
+      });
+  }
+
+  /** Tags without the #, and the entries of the `keywords` frontmatter field */
+  keywordsOf(file: TFile): string[] {
+    const cache = this.app.metadataCache.getFileCache(file);
+    if (cache == null) {
+      return [];
+    }
+    const field = cache.frontmatter?.keywords;
+    const keywords = [
+      ...(getAllTags(cache) ?? []).map((tag) => tag.replace(/^#/, "")),
+      ...(Array.isArray(field) ? field : String(field ?? "").split(",")).map(
+        (keyword) => String(keyword).trim()
+      ),
+    ];
+    return Array.from(new Set(keywords.filter((keyword) => keyword !== "")));
+  }
+
+  /** Regenerates every index block in the vault, leaving the text around
+   * them alone. Returns the number of notes that changed. */
+  async refreshIndexBlocks(): Promise<number> {
+    let count = 0;
+    for (const file of this.app.vault.getMarkdownFiles()) {
+      const content = await this.app.vault.cachedRead(file);
+      const blocks: Map<string, string> = new Map();
+      for (const [block, kind, branchID] of Array.from(
+        content.matchAll(INDEX_BLOCK_REGEX)
+      )) {
+        blocks.set(
+          block,
+          await this.indexBlock(kind as ZettelIndexKind, branchID ?? "")
+        );
+      }
+      if (Array.from(blocks).some(([block, updated]) => block !== updated)) {
+        await this.app.vault.process(file, (current) =>
+          current.replace(
+            INDEX_BLOCK_REGEX,
+            (block) => blocks.get(block) ?? block
+          )
+        );
+        count++;
+      }
+    }
+    return count;
+  }
+
+  /** Scans the vault for problems that otherwise only show up as IDs the
+   * commands can't find */
+  async checkZettelkasten(): Promise<ZettelIssue[]> {
+    return [
+      ...this.findDuplicateIDs(),
+      ...this.findMissingParents(),
+      ...this.findSiblingGaps(),
+      ...this.findNearMissFilenames(),
+      ...(await this.findOutdatedNavBlocks()),
+    ];
+  }
+
+  findDuplicateIDs(): ZettelIssue[] {
+    const issues: ZettelIssue[] = [];
+    const seen: Set<string> = new Set();
+    // IDs already offered to other copies
+    const reserved: Set<string> = new Set();
+    for (const file of this.sortZettels(this.getZettels())) {
+      const id = this.zettelID(file);
+      const files = this.zettelIndex.filesWithID(id);
+      if (files.length < 2 || seen.has(id)) {
+        continue;
+      }
+      seen.add(id);
+      // The oldest file keeps the ID
+      const [original, ...copies] = [...files].sort(
+        (a, b) => a.stat.ctime - b.stat.ctime
+      );
+      for (const copy of copies) {
+        const newID = this.firstAvailableID(this.incrementID(id), reserved);
+        reserved.add(newID);
+        issues.push({
+          kind: "duplicate",
+          message: `"${copy.basename}" has the same ID as "${original.basename}"`,
+          files: [copy, original],
+          fix: {
+            label: `Rename to ${newID}`,
+            apply: () =>
+              this.runRestructure(
+                `Rename duplicate ${id} to ${newID}`,
+                new Map([[copy, newID]])
+              ),
+          },
+        });
+      }
+    }
+    return issues;
+  }
+
+  findMissingParents(): ZettelIssue[] {
+    const orphans: Map<string, TFile[]> = new Map();
+    for (const file of this.getZettels()) {
+      const parentID = this.parentID(this.zettelID(file));
+      if (parentID !== "" && !this.idExists(parentID)) {
+        orphans.set(parentID, [...(orphans.get(parentID) ?? []), file]);
+      }
+    }
+    return Array.from(orphans.keys())
+      .sort((a, b) => this.compareIDs(a, b))
+      .map((parentID) => {
+        const children = this.sortZettels(orphans.get(parentID) ?? []);
+        return {
+          kind: "orphan",
+          message: `${parentID} doesn't exist, but ${
+            children.length == 1 ? "a zettel is" : "zettels are"
+          } filed under it`,
+          files: children,
+          fix: {
+            label: `Create ${parentID}`,
+            apply: () =>
+              this.createStubZettel(parentID, children[0].parent?.path ?? ""),
+          },
+        };
+      });
+  }
+
+  findSiblingGaps(): ZettelIssue[] {
+    const issues: ZettelIssue[] = [];
+    const parentIDs: Set<string> = new Set();
+    const ancestorIDs: Set<string> = new Set();
+    for (const file of this.getZettels()) {
+      let id = this.parentID(this.zettelID(file));
+      parentIDs.add(id);
+      while (id !== "" && !ancestorIDs.has(id)) {
+        ancestorIDs.add(id);
+        id = this.parentID(id);
+      }
+    }
+    // Renumbering would put the siblings over the missing zettels' children
+    const unsafeParentIDs = new Set(
+      Array.from(ancestorIDs)
+        .filter((id) => !this.idExists(id))
+        .map((id) => this.parentID(id))
+    );
+    const maxListed = 5;
+    for (const parentID of Array.from(parentIDs).sort((a, b) =>
+      this.compareIDs(a, b)
+    )) {
+      const siblingIDs = this.zettelIndex
+        .childIDs(parentID)
+        .sort((a, b) => this.compareIDs(a, b));
+      // Only the gaps between existing siblings are walked, positions can be
+      // as large as timestamps
+      const missing: string[] = [];
+      let missingCount = 0;
+      let previous = 0;
+      for (const siblingID of siblingIDs) {
+        const position = this.idScheme.position(siblingID);
+        missingCount += Math.max(0, position - previous - 1);
+        for (
+          let gap = previous + 1;
+          gap < position && missing.length < maxListed;
+          gap++
+        ) {
+          missing.push(this.childIDAt(parentID, gap));
+        }
+        previous = position;
+      }
+      if (missingCount == 0) {
+        continue;
+      }
+      const plan: Map<TFile, string> = new Map();
+      siblingIDs.forEach((id, i) =>
+        this.planSubtreeMove(id, this.childIDAt(parentID, i + 1)).forEach(
+          (newID, file) => plan.set(file, newID)
+        )
+      );
+      const safe = !unsafeParentIDs.has(parentID);
+      issues.push({
+        kind: "gap",
+        message: `${
+          parentID === "" ? "Top level zettels" : `Children of ${parentID}`
+        } skip ${
+          missingCount > maxListed ? `${missingCount} IDs` : missing.join(", ")
+        }`,
+        files: this.zettelIndex.filesWithID(parentID),
+        fix: safe
+          ? {
+              label: "Close gap",
+              apply: () =>
+                this.runRestructure(
+                  `Close gaps under ${parentID || "the top level"}`,
+                  plan
+                ),
+            }
+          : undefined,
+      });
+    }
+    return issues;
+  }
+
+  /** Files that look like zettels but aren't picked up by the matching rule */
+  findNearMissFilenames(): ZettelIssue[] {
+    if (this.usesFrontmatterIDs()) {
+      return this.findInvalidFrontmatterIDs();
+    }
+    const { matchRule, separator, idLetterCase } = this.settings;
+    const otherCase = new IDScheme({
+      ...this.settings,
+      idLetterCase: idLetterCase == "upper" ? "lower" : "upper",
+    });
+    const idFollowedByText = new RegExp(`^(${this.idScheme.pattern})\\s`);
+    const issues: ZettelIssue[] = [];
+    for (const file of this.app.vault.getMarkdownFiles()) {
+      if (this.zettelID(file) !== "") {
+        continue;
+      }
+      const caseMatch = file.basename.match(
+        otherCase.fileRegex(matchRule, separator)
+      );
+      const textMatch = file.basename.match(idFollowedByText);
+      let problem: string | null = null;
+      if (caseMatch && /[0-9]/.test(caseMatch[1])) {
+        problem = `the ID format uses ${idLetterCase}case letters`;
+      } else if (
+        matchRule !== "fuzzy" &&
+        textMatch &&
+        /[0-9]/.test(textMatch[1])
+      ) {
+        problem =
+          matchRule == "strict"
+            ? "the strict matching rule doesn't allow text after the ID"
+            : "the ID isn't followed by the separator";
+      }
+      if (problem) {
+        issues.push({
+          kind: "near-miss",
+          message: `"${file.basename}" isn't a zettel: ${problem}`,
+          files: [file],
+        });
+      }
+    }
+    return issues;
+  }
+
+  findInvalidFrontmatterIDs(): ZettelIssue[] {
+    const field = this.settings.idField;
+    const issues: ZettelIssue[] = [];
+    for (const file of this.app.vault.getMarkdownFiles()) {
+      const value =
+        this.app.metadataCache.getFileCache(file)?.frontmatter?.[field];
+      if (typeof value === "number") {
+        issues.push({
+          kind: "near-miss",
+          message: `"${file.basename}" isn't a zettel: ${field} ${value} is read as a number, which can drop digits (e.g: 1.10 becomes 1.1). Put the ID in quotes.`,
+          files: [file],
+        });
+      } else if (value != null && this.zettelID(file) === "") {
+        issues.push({
+          kind: "near-miss",
+          message: `"${file.basename}" isn't a zettel: ${field} "${value}" isn't a valid ID`,
+          files: [file],
+        });
+      }
+    }
+    return issues;
+  }
+
+  async findOutdatedNavBlocks(): Promise<ZettelIssue[]> {
+    const parentLink = (block: string) =>
+      block.match(/^- Parent: (.*)$/m)?.[1] ?? "nothing";
+    const issues: ZettelIssue[] = [];
+    for (const file of this.sortZettels(this.getZettels())) {
+      const content = await this.app.vault.cachedRead(file);
+      const block = content.match(NAV_BLOCK_REGEX)?.[0];
+      if (block == null) {
+        continue;
+      }
+      const expected = this.navBlock(this.zettelID(file));
+      if (block === expected) {
+        continue;
+      }
+      issues.push({
+        kind: "nav",
+        message:
+          parentLink(block) !== parentLink(expected)
+            ? `Navigation links show ${parentLink(
+                block
+              )} as parent instead of ${parentLink(expected)}`
+            : "Navigation links are out of date",
+        files: [file],
+        fix: { label: "Update", apply: () => this.updateNavBlock(file) },
+      });
+    }
+    return issues;
+  }
+
+  /** Whether filenames carry the title after the ID and separator */
+  filenameHasTitle(): boolean {
+    const { matchRule, addTitle } = this.settings;
+    return (matchRule === "fuzzy" && addTitle) || matchRule === "separator";
+  }
+
+  /** The filename of a zettel, without extension. With IDs in frontmatter
+   * it's the title, which other notes in `folder` may already use, so the
+   * ID or a counter is added until the name is free. */
+  zettelFilename(id: string, title: string, folder?: string): string {
+    if (this.usesFrontmatterIDs()) {
+      const name = sanitizeFilename(title) || id;
+      const isTaken = (candidate: string) =>
+        folder != null &&
+        this.app.vault.getAbstractFileByPath(
+          normalizePath(`${folder}/${candidate}.md`)
+        ) != null;
+      let candidate = name;
+      if (isTaken(candidate) && name !== id) {
+        candidate = `${name} ${id}`;
+      }
+      for (let counter = 2; isTaken(candidate); counter++) {
+        candidate = `${name} ${counter}`;
+      }
+      return candidate;
+    }
+    return (
+      id + (this.filenameHasTitle() ? this.settings.separator + title : "")
+    );
+  }
+
+  /** Creates an empty zettel for the ID in the folder and returns its
+   * path, or null if it couldn't be created. The template's required
+   * placeholders are not enforced, a stub has no link or selection. */
+  async createStubZettel(
+    id: string,
+    folder: string,
+    title?: string
+  ): Promise<string | null> {
+    // Named after the ID when it's in frontmatter, so stubs don't collide
+    const filenameTitle =
+      title ?? (this.usesFrontmatterIDs() ? "" : "Untitled");
+    const path = normalizePath(
+      `${folder}/${this.zettelFilename(id, filenameTitle, folder)}.md`
+    );
+    await this.makeNote(
+      path,
+      title ?? "Untitled",
+      "",
+      false,
+      undefined,
+      "",
+      id,
+      false
+    );
+    return this.app.vault.getAbstractFileByPath(path) instanceof TFile
+      ? path
+      : null;
+  }
+
+  async addAlias(path: string, alias: string) {
+    const file = this.app.vault.getAbstractFileByPath(path);
+    if (file instanceof TFile) {
+      await this.app.fileManager.processFrontMatter(file, (frontMatter) => {
+        frontMatter.aliases = [
+          ...(parseFrontMatterAliases(frontMatter) ?? []),
+          alias,
+        ];
+      });
+    }
+  }
+
+  /** Plans renaming every zettel to the current naming rule, taking the
+   * title from the H1 or alias. Files named for the rule in use before the
+   * last change of the settings are recognised too. */
+  async planNamingConversion(): Promise<NamingConversion> {
+    const { matchRule, separator, previousNaming } = this.settings;
+    const rules: NamingRule[] = previousNaming
+      ? [previousNaming, { matchRule, separator }]
+      : [{ matchRule, separator }];
+    const planned: ZettelRename[] = [];
+    const idChanges: ZettelRename[] = [];
+    const aliases: Map<string, string> = new Map();
+    const conflicts: NamingConflict[] = [];
+    for (const file of this.app.vault.getMarkdownFiles()) {
+      if (this.isIgnoredPath(file.path)) {
+        continue;
+      }
+      let id: string | null = null;
+      let filenameTitle = "";
+      for (const rule of rules) {
+        if (rule.matchRule === "frontmatter") {
+          const frontmatterID = this.frontmatterID(file);
+          if (frontmatterID !== "") {
+            id = frontmatterID;
+            filenameTitle = file.basename;
+            break;
+          }
+          continue;
+        }
+        const match = file.basename.match(
+          this.idScheme.fileRegex(rule.matchRule, rule.separator)
+        );
+        if (match) {
+          id = match[1];
+          const rest = file.basename.slice(id.length);
+          filenameTitle = (
+            rest.startsWith(rule.separator)
+              ? rest.slice(rule.separator.length)
+              : rest
+          ).trim();
+          break;
+        }
+      }
+      if (id == null) {
+        continue;
+      }
+      if (this.usesFrontmatterIDs()) {
+        // Filenames stay, the ID moves to the frontmatter
+        if (this.frontmatterID(file) === "") {
+          idChanges.push({ path: file.path, from: "", to: id });
+        }
+        continue;
+      }
+      const title = await this.zettelTitle(file);
+      let name = id;
+      if (this.filenameHasTitle()) {
+        const filenameSafeTitle = sanitizeFilename(title ?? filenameTitle);
+        if (filenameSafeTitle === "") {
+          conflicts.push({
+            path: file.path,
+            reason: "has no H1 or alias to take the title from",
+          });
+          continue;
+        }
+        name = this.zettelFilename(id, filenameSafeTitle);
+      }
+      if (name === file.basename) {
+        continue;
+      }
+      const to = normalizePath(`${file.parent?.path ?? ""}/${name}.md`);
+      planned.push({ from: file.path, to });
+      if (title == null && filenameTitle !== "" && !this.filenameHasTitle()) {
+        aliases.set(to, filenameTitle);
+      }
+    }
+
+    const sources = new Set(planned.map(({ from }) => from));
+    const targetCounts: Map<string, number> = new Map();
+    for (const { to } of planned) {
+      targetCounts.set(to, (targetCounts.get(to) ?? 0) + 1);
+    }
+    const renames: ZettelRename[] = [...idChanges];
+    for (const rename of planned) {
+      if ((targetCounts.get(rename.to) ?? 0) > 1) {
+        conflicts.push({
+          path: rename.from,
+          reason: `would be renamed to "${rename.to}" like another zettel`,
+        });
+      } else if (
+        !sources.has(rename.to) &&
+        this.app.vault.getAbstractFileByPath(rename.to) != null
+      ) {
+        conflicts.push({
+          path: rename.from,
+          reason: `can't be renamed, "${rename.to}" already exists`,
+        });
       } else {
-        position = editor.getCursor();
+        renames.push(rename);
+      }
+    }
+    return { renames, aliases, conflicts };
+  }
+
+  async convertToNamingRule() {
+    const conversion = await this.planNamingConversion();
+    const { renames, aliases, conflicts } = conversion;
+    if (renames.length == 0 && conflicts.length == 0) {
+      this.settings.previousNaming = null;
+      await this.saveSettings();
+      new Notice("All zettels already match the naming rule");
+      return;
+    }
+    new ZettelConversionModal(this.app, conversion, async () => {
+      if (renames.length > 0) {
+        if (!(await this.executeRenames(renames))) {
+          return;
+        }
+        await this.journalRenames(
+          `Convert ${renames.length} zettels to the naming rule`,
+          renames
+        );
+        for (const [path, alias] of Array.from(aliases.entries())) {
+          await this.addAlias(path, alias);
+        }
       }
+      this.settings.previousNaming = null;
+      await this.saveSettings();
+      new Notice(`Renamed ${renames.length} zettels`);
+    }).open();
+  }
 
-      return () => {
-        editor.replaceRange(prefix + text, position, position);
+  /** Markdown files in the folder that don't have an ID yet */
+  migrationCandidates(folder: string): TFile[] {
+    const prefix = folder === "" ? "" : normalizePath(folder) + "/";
+    return this.app.vault
+      .getMarkdownFiles()
+      .filter(
+        (file) =>
+          file.path.startsWith(prefix) &&
+          !this.isIgnoredPath(file.path) &&
+          this.zettelID(file) === ""
+      );
+  }
+
+  /** Assigns IDs to the notes in the folder, as children of `rootID`.
+   * Folders without a note of the same name get an entry of their own,
+   * which becomes a new note when migrating. */
+  planMigration(
+    folder: string,
+    rootID: string,
+    strategy: MigrationStrategy
+  ): MigrationEntry[] {
+    const candidates = this.migrationCandidates(folder);
+    const byName = (a: TAbstractFile, b: TAbstractFile) =>
+      a.name.localeCompare(b.name);
+    const entries: MigrationEntry[] = [];
+    const lastChild: Map<string, string> = new Map();
+    const nextChildOf = (parentID: string) => {
+      const previous = lastChild.get(parentID);
+      const id = this.firstAvailableID(
+        previous ? this.incrementID(previous) : this.firstChildOf(parentID)
+      );
+      lastChild.set(parentID, id);
+      return id;
+    };
+
+    if (strategy == "alphabetical") {
+      for (const file of candidates.sort(byName)) {
+        entries.push({ path: file.path, id: nextChildOf(rootID) });
+      }
+    } else if (strategy == "folders") {
+      const root = this.app.vault.getAbstractFileByPath(normalizePath(folder));
+      const candidatePaths = new Set(candidates.map((file) => file.path));
+      const hasCandidates = (child: TAbstractFile): boolean =>
+        child instanceof TFolder
+          ? child.children.some(hasCandidates)
+          : candidatePaths.has(child.path);
+      const assign = (parentID: string, dir: TFolder, skip?: string) => {
+        for (const child of dir.children.filter(hasCandidates).sort(byName)) {
+          if (child.path === skip) {
+            continue;
+          }
+          const id = nextChildOf(parentID);
+          if (child instanceof TFolder) {
+            const folderNote = `${child.path}/${child.name}.md`;
+            entries.push({
+              path: candidatePaths.has(folderNote) ? folderNote : child.path,
+              id,
+            });
+            assign(id, child, folderNote);
+          } else {
+            entries.push({ path: child.path, id });
+          }
+        }
+      };
+      assign(rootID, root instanceof TFolder ? root : this.app.vault.getRoot());
+    } else {
+      const candidateSet = new Set(candidates);
+      const children: Map<TFile, TFile[]> = new Map();
+      const roots: { file: TFile; parentID: string }[] = [];
+      for (const file of candidates) {
+        const parent = this.frontmatterParent(file);
+        if (parent && candidateSet.has(parent) && parent !== file) {
+          children.set(parent, [...(children.get(parent) ?? []), file]);
+        } else if (parent && this.isIndexedZettel(parent)) {
+          roots.push({ file, parentID: this.zettelID(parent) });
+        } else {
+          roots.push({ file, parentID: rootID });
+        }
+      }
+      const assigned: Set<TFile> = new Set();
+      const assign = (file: TFile, id: string) => {
+        assigned.add(file);
+        entries.push({ path: file.path, id });
+        for (const child of (children.get(file) ?? []).sort(byName)) {
+          if (!assigned.has(child)) {
+            assign(child, nextChildOf(id));
+          }
+        }
       };
+      for (const { file, parentID } of roots.sort((a, b) =>
+        byName(a.file, b.file)
+      )) {
+        assign(file, nextChildOf(parentID));
+      }
+      // Notes whose parents point at each other are never reached from a root
+      for (const file of candidates.sort(byName)) {
+        if (!assigned.has(file)) {
+          assign(file, nextChildOf(rootID));
+        }
+      }
     }
+    return entries;
   }
 
-  getZettels(): TFile[] {
-    const fileToId = (file: TFile) => this.fileToId(file.basename);
-    return this.app.vault.getMarkdownFiles().filter((file) => {
-      const ignore = !file.path.match(/^(_layouts|templates|scripts)/);
-      return ignore && fileToId(file) !== "";
-    });
+  /** The note linked in the `parent` frontmatter field */
+  frontmatterParent(file: TFile): TFile | null {
+    const parent =
+      this.app.metadataCache.getFileCache(file)?.frontmatter?.parent;
+    if (typeof parent !== "string") {
+      return null;
+    }
+    const linkpath = parent
+      .replace(/^\[\[|\]\]$/g, "")
+      .split("|")[0]
+      .trim();
+    return this.app.metadataCache.getFirstLinkpathDest(linkpath, file.path);
   }
 
-  getDirectChildZettels(ofParent: string): TFile[] {
-    return this.getZettels().filter((file) => {
-      return this.parentID(this.fileToId(file.basename)) == ofParent;
-    });
+  /** Returns why the migration can't run, or null if it can */
+  validateMigration(entries: MigrationEntry[]): string | null {
+    const ids: Set<string> = new Set();
+    for (const { path, id } of entries) {
+      const file = this.app.vault.getAbstractFileByPath(path);
+      if (file == null) {
+        return `"${path}" doesn't exist`;
+      }
+      if (file instanceof TFile && this.zettelID(file) !== "") {
+        return `"${path}" already has an ID`;
+      }
+      if (this.idScheme.format(this.idScheme.parse(id)) !== id) {
+        return `"${id}" isn't a valid ID`;
+      }
+      if (ids.has(id) || this.idExists(id)) {
+        return `${id} is used more than once`;
+      }
+      ids.add(id);
+    }
+    return null;
   }
 
-  async getAllNoteTitles(): Promise<Map<string, TFile>> {
-    const regex = /# (.+)\s*/;
-    const titles: Map<string, TFile> = new Map();
-    for (const file of this.getZettels()) {
-      const text = await this.app.vault.cachedRead(file);
-      const match = text.match(regex);
-      if (match) {
-        titles.set(match[1], file);
+  /** Renames the notes in the mapping and creates notes for folders.
+   * The renames are journaled, so they can be undone as one batch. */
+  async migrateNotes(entries: MigrationEntry[]): Promise<boolean> {
+    const problem = this.validateMigration(entries);
+    if (problem) {
+      new Notice(`Can't migrate notes: ${problem}`);
+      return false;
+    }
+    const renames: ZettelRename[] = [];
+    const folders: MigrationEntry[] = [];
+    for (const entry of entries) {
+      const file = this.app.vault.getAbstractFileByPath(entry.path);
+      if (file instanceof TFile && this.usesFrontmatterIDs()) {
+        renames.push({ path: file.path, from: "", to: entry.id });
+      } else if (file instanceof TFile) {
+        renames.push({
+          from: file.path,
+          to: normalizePath(
+            `${file.parent?.path ?? ""}/${this.zettelFilename(
+              entry.id,
+              file.basename
+            )}.md`
+          ),
+        });
+      } else {
+        folders.push(entry);
       }
     }
+    if (!(await this.executeRenames(renames))) {
+      return false;
+    }
+    if (!this.filenameHasTitle() && !this.usesFrontmatterIDs()) {
+      // The old name is the only title some notes have
+      for (const { from, to } of renames) {
+        const oldName = from.split("/").pop()?.replace(/\.md$/, "") ?? "";
+        await this.addAlias(to, oldName);
+      }
+    }
+    const created: string[] = [];
+    for (const { path, id } of folders) {
+      const stub = await this.createStubZettel(id, path, path.split("/").pop());
+      if (stub == null) {
+        new Notice(`Couldn't create a note for the folder ${path}`);
+      } else {
+        created.push(stub);
+      }
+    }
+    await this.journalRenames(
+      `Migrate ${renames.length} notes`,
+      renames,
+      created
+    );
+    return true;
+  }
+
+  async outdentZettel(id: string) {
+    const parentID = this.parentID(id);
+    if (parentID === "") {
+      new Notice(`Can't outdent ${id}: it has no parent`);
+      return;
+    }
+    const move = this.planZettelMove(id, parentID, "after");
+    if (move && (await this.runRestructure(`Outdent ${id}`, move.plan))) {
+      new Notice(`Outdented ${id} to ${move.newID}`);
+    }
+  }
+
+  async onload() {
+    console.log("loading New Zettel");
+    this.loadSettings();
+    this.addSettingTab(new LuhmanSettingTab(this.app, this));
+    // this.app.workspace.onLayoutReady(this.initialize);
+
+    this.addCommand({
+      id: "new-sibling-note",
+      name: "New Sibling Zettel Note",
+      icon: "file-symlink",
+      callback: () => {
+        this.makeNoteFunction(this.makeNoteForNextSiblingOf);
+      },
+    });
+
+    this.addCommand({
+      id: "new-child-note",
+      name: "New Child Zettel Note",
+      icon: "file-down",
+      callback: () => {
+        this.makeNoteFunction(this.makeNoteForNextChildOf);
+      },
+    });
+
+    this.addCommand({
+      id: "new-sibling-note-dont-open",
+      name: "New Sibling Zettel Note (Don't Open)",
+      icon: "file-symlink",
+      callback: () => {
+        this.makeNoteFunction(this.makeNoteForNextSiblingOf, false);
+      },
+    });
+
+    this.addCommand({
+      id: "new-child-note-dont-open",
+      name: "New Child Zettel Note (Don't Open)",
+      icon: "file-down",
+      callback: () => {
+        this.makeNoteFunction(this.makeNoteForNextChildOf, false);
+      },
+    });
+
+    this.addCommand({
+      id: "new-between-note",
+      name: "New Zettel Between",
+      icon: "list-plus",
+      callback: () => {
+        this.newZettelBetween();
+      },
+    });
+
+    this.addCommand({
+      id: "insert-zettel-link",
+      name: "Insert Zettel Link",
+      icon: "link-2",
+      callback: async () => {
+        // let completion = (te)
+        const entries = this.zettelSearchEntries();
+        const editor =
+          this.app.workspace.getActiveViewOfType(MarkdownView)?.editor;
+        const selection = editor?.getSelection().trim();
+        const replaceSelection = editor && this.selectionReplacer(editor);
+        new ZettelSuggester(
+          this.app,
+          entries,
+          this.currentlySelectedText(),
+          async (file) => {
+            const link = await this.zettelLink(file, selection || undefined);
+            if (selection && replaceSelection) {
+              replaceSelection(link);
+              return;
+            }
+            const doInsert = this.insertTextIntoCurrentNote(link);
+            if (doInsert == undefined)
+              new Notice(
+                "Error inserting link, Code: 6a46de1d-a8da-4dae-af41-9d444eaf3d4d"
+              );
+            else doInsert();
+          }
+        ).open();
+      },
+    });
+
+    this.addCommand({
+      id: "open-zettel",
+      name: "Open Zettel",
+      icon: "folder-open",
+      callback: () => {
+        new ZettelSuggester(
+          this.app,
+          this.zettelSearchEntries(),
+          this.currentlySelectedText(),
+          (file) => {
+            this.app.workspace.getLeaf().openFile(file);
+          }
+        ).open();
+      },
+    });
+
+    this.addCommand({
+      id: "open-parent-zettel",
+      name: "Open Parent Zettel",
+      icon: "folder-open",
+      callback: () => {
+        const file = this.currentFile();
+        if (file) {
+          const id = this.zettelID(file);
+          const parentId = this.parentID(id);
+          if (parentId === "") {
+            new Notice(
+              `No parent found for "${file.basename}". ${checkSettingsMessage}`
+            );
+            return;
+          }
+          this.openZettel(parentId);
+        } else {
+          new Notice("No file open");
+        }
+      },
+    });
+
+    this.addCommand({
+      id: "open-next-sibling-zettel",
+      name: "Open Next Sibling Zettel",
+      icon: "arrow-down",
+      callback: () => {
+        this.openRelativeZettel(
+          (id) => this.siblingNeighbours(id).next,
+          (id) => `${id} has no next sibling`
+        );
+      },
+    });
+
+    this.addCommand({
+      id: "open-previous-sibling-zettel",
+      name: "Open Previous Sibling Zettel",
+      icon: "arrow-up",
+      callback: () => {
+        this.openRelativeZettel(
+          (id) => this.siblingNeighbours(id).previous,
+          (id) => `${id} has no previous sibling`
+        );
+      },
+    });
+
+    this.addCommand({
+      id: "open-first-child-zettel",
+      name: "Open First Child Zettel",
+      icon: "corner-right-down",
+      callback: () => {
+        this.openRelativeZettel(
+          (id) => this.sortZettels(this.getDirectChildZettels(id)).first(),
+          (id) => `${id} has no children`
+        );
+      },
+    });
+
+    this.addCommand({
+      id: "open-last-child-zettel",
+      name: "Open Last Child Zettel",
+      icon: "corner-right-down",
+      callback: () => {
+        this.openRelativeZettel(
+          (id) => this.sortZettels(this.getDirectChildZettels(id)).last(),
+          (id) => `${id} has no children`
+        );
+      },
+    });
+
+    this.addCommand({
+      id: "open-branch-root-zettel",
+      name: "Open Root of Zettel Branch",
+      icon: "git-branch",
+      callback: () => {
+        this.openRelativeZettel(
+          (id) => {
+            let rootID = id;
+            while (this.idExists(this.parentID(rootID))) {
+              rootID = this.parentID(rootID);
+            }
+            return rootID === id
+              ? undefined
+              : this.zettelIndex.filesWithID(rootID).first();
+          },
+          (id) => `${id} is the root of its branch`
+        );
+      },
+    });
+
+    this.addCommand({
+      id: "open-next-zettel-reading-order",
+      name: "Open Next Zettel in Reading Order",
+      icon: "chevrons-down",
+      callback: () => {
+        this.openRelativeZettel(
+          (id) => this.readingOrderNeighbour(id, 1),
+          (id) => `${id} is the last zettel in reading order`
+        );
+      },
+    });
+
+    this.addCommand({
+      id: "open-previous-zettel-reading-order",
+      name: "Open Previous Zettel in Reading Order",
+      icon: "chevrons-up",
+      callback: () => {
+        this.openRelativeZettel(
+          (id) => this.readingOrderNeighbour(id, -1),
+          (id) => `${id} is the first zettel in reading order`
+        );
+      },
+    });
+
+    this.addCommand({
+      id: "split-into-child-zettel",
+      name: "Split into Child Zettel",
+      icon: "scissors",
+      callback: () => {
+        this.splitIntoChildZettel();
+      },
+    });
+
+    this.addCommand({
+      id: "merge-zettel",
+      name: "Merge Zettel Into…",
+      icon: "git-merge",
+      callback: () => {
+        const file = this.currentFile();
+        if (file == null || !this.isZettelFile(file)) {
+          new Notice("No zettel open");
+          return;
+        }
+        const id = this.zettelID(file);
+        const parentID = this.parentID(id);
+        const targets = [
+          ...this.zettelIndex.filesWithID(parentID),
+          ...this.getDirectChildZettels(parentID),
+        ].filter((target) => target !== file);
+        if (targets.length == 0) {
+          new Notice(`${id} has no parent or siblings to merge into`);
+          return;
+        }
+        const entries = this.zettelSearchEntries().filter((entry) =>
+          targets.includes(entry.file)
+        );
+        new ZettelSuggester(this.app, entries, undefined, (target) => {
+          if (this.zettelIndex.childIDs(id).length == 0) {
+            this.mergeZettel(file, target, "keep");
+            return;
+          }
+          new ZettelMergeChildrenModal(
+            this.app,
+            id,
+            this.zettelID(target),
+            (children) => this.mergeZettel(file, target, children)
+          ).open();
+        }).open();
+      },
+    });
+
+    this.addCommand({
+      id: "delete-zettel",
+      name: "Delete Zettel",
+      icon: "trash-2",
+      callback: () => {
+        const file = this.currentFile();
+        if (file == null || !this.isZettelFile(file)) {
+          new Notice("No zettel open");
+          return;
+        }
+        new ZettelDeleteModal(this.app, this, file).open();
+      },
+    });
+
+    this.addCommand({
+      id: "export-branch-canvas",
+      name: "Export Branch to Canvas",
+      icon: "layout-dashboard",
+      callback: () => {
+        const file = this.currentFile();
+        if (file == null || !this.isZettelFile(file)) {
+          new Notice("No zettel open");
+          return;
+        }
+        this.exportBranchCanvas(file);
+      },
+    });
+
+    this.addCommand({
+      id: "compile-branch",
+      name: "Compile Branch",
+      icon: "book-open",
+      callback: async () => {
+        const file = this.currentFile();
+        if (file == null || !this.isZettelFile(file)) {
+          new Notice("No zettel open");
+          return;
+        }
+        new ZettelCompileModal(
+          this.app,
+          this,
+          await this.compileBranch(file)
+        ).open();
+      },
+    });
+
+    this.addCommand({
+      id: "outdent-zettel",
+      name: "Outdent Zettel",
+      icon: "outdent",
+      callback: () => {
+        const file = this.currentFile();
+        if (file) {
+          this.outdentZettel(this.zettelID(file));
+        }
+      },
+    });
+
+    this.addCommand({
+      id: "indent-zettel",
+      name: "Indent Zettel",
+      icon: "indent",
+      callback: () => {
+        const file = this.currentFile();
+        if (file) {
+          this.indentZettel(this.zettelID(file));
+        }
+      },
+    });
+
+    this.addCommand({
+      id: "insert-zettel-index",
+      name: "Insert Zettel Index",
+      icon: "list",
+      callback: () => {
+        if (this.app.workspace.getActiveViewOfType(MarkdownView) == null) {
+          new Notice("No note open");
+          return;
+        }
+        new ZettelIndexModal(this.app, this).open();
+      },
+    });
+
+    this.addCommand({
+      id: "refresh-zettel-indexes",
+      name: "Refresh Zettel Indexes",
+      icon: "refresh-cw",
+      callback: async () => {
+        const count = await this.refreshIndexBlocks();
+        new Notice(`Refreshed the indexes in ${count} notes`);
+      },
+    });
+
+    this.addCommand({
+      id: "refresh-nav-blocks",
+      name: "Refresh Navigation Links in All Zettels",
+      icon: "refresh-cw",
+      callback: async () => {
+        if (!this.settings.maintainNavBlock) {
+          new Notice(
+            'Turn on "Maintain navigation links" in the settings to add navigation links'
+          );
+          return;
+        }
+        for (const file of this.getZettels()) {
+          await this.updateNavBlock(file);
+        }
+        new Notice("Navigation links updated");
+      },
+    });
+
+    this.addCommand({
+      id: "undo-restructure",
+      name: "Undo Last Luhmann Restructure",
+      icon: "undo",
+      callback: () => {
+        this.undoLastRestructure();
+      },
+    });
+
+    this.addCommand({
+      id: "move-zettel-up",
+      name: "Move Zettel Up",
+      icon: "arrow-up",
+      callback: () => {
+        const file = this.currentFile();
+        if (file) {
+          this.swapZettelWithSibling(this.zettelID(file), "up");
+        }
+      },
+    });
+
+    this.addCommand({
+      id: "move-zettel-down",
+      name: "Move Zettel Down",
+      icon: "arrow-down",
+      callback: () => {
+        const file = this.currentFile();
+        if (file) {
+          this.swapZettelWithSibling(this.zettelID(file), "down");
+        }
+      },
+    });
+
+    this.addCommand({
+      id: "move-zettel",
+      name: "Move Zettel",
+      icon: "move",
+      callback: () => {
+        const file = this.currentFile();
+        if (file == null || !this.isZettelFile(file)) {
+          new Notice("No zettel open");
+          return;
+        }
+        const id = this.zettelID(file);
+        const entries = this.zettelSearchEntries();
+        new ZettelSuggester(this.app, entries, undefined, (target) => {
+          const targetID = this.zettelID(target);
+          new ZettelMovePositionModal(this.app, id, targetID, (position) => {
+            this.moveZettel(id, targetID, position);
+          }).open();
+        }).open();
+      },
+    });
+
+    this.registerView(
+      ZETTEL_TREE_VIEW_TYPE,
+      (leaf) => new ZettelTreeView(leaf, this)
+    );
+
+    this.registerView(
+      ZETTEL_CHECK_VIEW_TYPE,
+      (leaf) => new ZettelCheckView(leaf, this)
+    );
+
+    this.addCommand({
+      id: "migrate-notes",
+      name: "Migrate Notes to Luhmann IDs",
+      callback: () => {
+        new ZettelMigrationModal(this.app, this).open();
+      },
+    });
+
+    this.addCommand({
+      id: "convert-naming-rule",
+      name: "Convert Zettels to Current Naming Rule",
+      callback: () => {
+        this.convertToNamingRule();
+      },
+    });
+
+    this.addCommand({
+      id: "check-zettelkasten",
+      name: "Check Zettelkasten",
+      icon: "stethoscope",
+      callback: () => {
+        this.activateCheckView();
+      },
+    });
+
+    this.addCommand({
+      id: "open-zettel-tree",
+      name: "Open Zettel Tree",
+      icon: "list-tree",
+      callback: () => {
+        this.activateTreeView();
+      },
+    });
+
+    this.app.workspace.onLayoutReady(() => {
+      this.zettelIndex.rebuild();
+      // Registered once the layout is ready so the initial vault load
+      // doesn't trigger a refresh for every file
+      this.registerEvent(
+        this.app.vault.on("create", (file) => this.zettelIndex.update(file))
+      );
+      this.registerEvent(
+        this.app.vault.on("rename", (file) => this.zettelIndex.update(file))
+      );
+      this.registerEvent(
+        this.app.vault.on("delete", (file) => {
+          // Read before the index forgets it, frontmatter IDs are gone already
+          const id =
+            (file instanceof TFile && this.zettelIndex.idOf(file)) ||
+            this.pathToId(file.path);
+          this.zettelIndex.delete(file);
+          this.queueNavUpdate(id);
+        })
+      );
+      this.registerEvent(
+        this.app.vault.on("modify", (file) => this.zettelIndex.update(file))
+      );
+      this.registerEvent(
+        this.app.metadataCache.on("changed", (file, data) => {
+          if (this.settings.searchNoteBody) {
+            this.zettelIndex.updateExcerpt(file, data);
+          }
+        })
+      );
+      if (this.settings.searchNoteBody) {
+        this.zettelIndex.loadExcerpts().catch((err) => console.error(err));
+      }
+      this.registerEvent(
+        this.app.metadataCache.on("changed", (file) => {
+          // The cache has caught up with IDs written to the frontmatter
+          this.pendingIDs.delete(file);
+          if (this.usesFrontmatterIDs()) {
+            const oldID = this.zettelIndex.idOf(file) ?? "";
+            this.zettelIndex.update(file);
+            const id = this.zettelIndex.idOf(file) ?? "";
+            if (id !== oldID) {
+              this.queueNavUpdate(oldID);
+              this.queueNavUpdate(id);
+            }
+            this.refreshTreeViews();
+          }
+        })
+      );
+      // Frontmatter may not have been parsed for every file yet
+      const resolvedRef = this.app.metadataCache.on("resolved", () => {
+        this.app.metadataCache.offref(resolvedRef);
+        if (this.usesFrontmatterIDs()) {
+          this.zettelIndex.invalidate();
+          this.refreshTreeViews();
+        }
+      });
+      this.registerEvent(resolvedRef);
+      this.registerEvent(
+        this.app.vault.on("create", (file) => {
+          if (file instanceof TFile) {
+            this.queueNavUpdate(this.zettelID(file));
+          }
+        })
+      );
+      this.registerEvent(
+        this.app.vault.on("rename", (file, oldPath) => {
+          // With frontmatter IDs a rename doesn't change the ID
+          this.queueNavUpdate(this.pathToId(oldPath));
+          if (file instanceof TFile) {
+            this.queueNavUpdate(this.zettelID(file));
+          }
+        })
+      );
+      this.registerEvent(
+        this.app.vault.on("create", () => this.refreshTreeViews())
+      );
+      this.registerEvent(
+        this.app.vault.on("rename", () => this.refreshTreeViews())
+      );
+      this.registerEvent(
+        this.app.vault.on("delete", () => this.refreshTreeViews())
+      );
+      this.renderBreadcrumbs();
+      this.register(() => this.removeBreadcrumbs());
+      this.registerEvent(
+        this.app.vault.on("create", () => this.refreshBreadcrumbs())
+      );
+      this.registerEvent(
+        this.app.vault.on("rename", () => this.refreshBreadcrumbs())
+      );
+      this.registerEvent(
+        this.app.vault.on("delete", () => this.refreshBreadcrumbs())
+      );
+      this.registerEvent(
+        this.app.metadataCache.on("changed", () => this.refreshBreadcrumbs())
+      );
+      this.registerEvent(
+        this.app.workspace.on("layout-change", () => this.refreshBreadcrumbs())
+      );
+      this.registerEvent(
+        this.app.workspace.on("file-open", () => this.refreshBreadcrumbs())
+      );
+      this.registerEvent(
+        this.app.workspace.on("file-open", (file) => {
+          if (file) {
+            this.treeViews().forEach((view) => view.revealFile(file));
+          }
+        })
+      );
+    });
+  }
+
+  onunload() {
+    console.log("unloading New Zettel");
+    // this.initialize(true);
+  }
+
+  treeViews(): ZettelTreeView[] {
+    return this.app.workspace
+      .getLeavesOfType(ZETTEL_TREE_VIEW_TYPE)
+      .map((leaf) => leaf.view)
+      .filter((view): view is ZettelTreeView => view instanceof ZettelTreeView);
+  }
+
+  async activateTreeView() {
+    const existing = this.app.workspace.getLeavesOfType(ZETTEL_TREE_VIEW_TYPE);
+    if (existing.length > 0) {
+      this.app.workspace.revealLeaf(existing[0]);
+      return;
+    }
+    const leaf = this.app.workspace.getRightLeaf(false);
+    await leaf.setViewState({ type: ZETTEL_TREE_VIEW_TYPE, active: true });
+    this.app.workspace.revealLeaf(leaf);
+  }
+
+  async activateCheckView() {
+    const existing = this.app.workspace.getLeavesOfType(ZETTEL_CHECK_VIEW_TYPE);
+    if (existing.length > 0) {
+      this.app.workspace.revealLeaf(existing[0]);
+      const view = existing[0].view;
+      if (view instanceof ZettelCheckView) {
+        await view.refresh();
+      }
+      return;
+    }
+    const leaf = this.app.workspace.getLeaf(true);
+    await leaf.setViewState({ type: ZETTEL_CHECK_VIEW_TYPE, active: true });
+    this.app.workspace.revealLeaf(leaf);
+  }
+
+  /** Draws the ancestry bar above every open zettel, in editing and
+   * reading mode */
+  renderBreadcrumbs() {
+    this.removeBreadcrumbs();
+    if (!this.settings.showBreadcrumbs) {
+      return;
+    }
+    for (const leaf of this.app.workspace.getLeavesOfType("markdown")) {
+      const view = leaf.view;
+      if (
+        view instanceof MarkdownView &&
+        view.file &&
+        this.isZettelFile(view.file)
+      ) {
+        const barEl = createDiv({ cls: "luhman-breadcrumbs" });
+        view.containerEl.insertBefore(barEl, view.contentEl);
+        this.renderBreadcrumbBar(barEl, view.file, leaf);
+      }
+    }
+  }
+
+  removeBreadcrumbs() {
+    for (const leaf of this.app.workspace.getLeavesOfType("markdown")) {
+      leaf.view.containerEl
+        .querySelectorAll(":scope > .luhman-breadcrumbs")
+        .forEach((el) => el.remove());
+    }
+  }
+
+  private renderBreadcrumbBar(
+    barEl: HTMLElement,
+    file: TFile,
+    leaf: WorkspaceLeaf
+  ) {
+    const id = this.zettelID(file);
+    const trailEl = barEl.createDiv({ cls: "luhman-breadcrumbs-trail" });
+    const crumb = (crumbID: string, target?: TFile) => {
+      const crumbEl = trailEl.createSpan({ cls: "luhman-breadcrumb" });
+      crumbEl.createSpan({ cls: "luhman-breadcrumb-id", text: crumbID });
+      const title = target && this.cachedNoteTitle(target);
+      if (title) {
+        crumbEl.createSpan({ text: title });
+      }
+      return crumbEl;
+    };
+
+    const ancestorIDs: string[] = [];
+    let ancestorID = this.parentID(id);
+    while (ancestorID !== "") {
+      ancestorIDs.unshift(ancestorID);
+      ancestorID = this.parentID(ancestorID);
+    }
+    for (const ancestorID of ancestorIDs) {
+      const ancestor = this.zettelIndex.filesWithID(ancestorID).first();
+      const crumbEl = crumb(ancestorID, ancestor);
+      if (ancestor) {
+        crumbEl.addClass("is-clickable");
+        crumbEl.addEventListener("click", () => leaf.openFile(ancestor));
+      } else {
+        crumbEl.addClass("is-missing");
+      }
+      trailEl.createSpan({ cls: "luhman-breadcrumb-separator", text: "›" });
+    }
+    crumb(id, file).addClass("is-current");
+
+    const navEl = barEl.createDiv({ cls: "luhman-breadcrumbs-nav" });
+    const { previous, next } = this.siblingNeighbours(id);
+    const siblingButton = (icon: string, label: string, target?: TFile) => {
+      const button = navEl.createEl("button", {
+        cls: "clickable-icon",
+        attr: { "aria-label": label },
+      });
+      setIcon(button, icon);
+      if (target) {
+        button.addEventListener("click", () => leaf.openFile(target));
+      } else {
+        button.disabled = true;
+      }
+    };
+    siblingButton("arrow-left", "Previous sibling", previous);
+    siblingButton("arrow-right", "Next sibling", next);
+    const childCount = this.zettelIndex.childIDs(id).length;
+    navEl.createSpan({
+      cls: "luhman-breadcrumbs-children",
+      text: `${childCount} ${childCount == 1 ? "child" : "children"}`,
+    });
+  }
+
+  currentFile(): TFile | undefined {
+    return this.app.workspace.getActiveViewOfType(MarkdownView)?.file;
+  }
+
+  openZettel(id: string) {
+    const file = this.zettelIndex.filesWithID(id).first();
+    if (file) {
+      this.app.workspace.getLeaf().openFile(file);
+    }
+  }
+
+  /** Moves the selected text, or the heading section around the cursor,
+   * into a new child zettel and puts a link to it in its place. The first
+   * line becomes the title. */
+  async splitIntoChildZettel() {
+    const file = this.currentFile();
+    const editor = this.app.workspace.getActiveViewOfType(MarkdownView)?.editor;
+    if (file == null || editor == null || !this.isZettelFile(file)) {
+      new Notice("No zettel open");
+      return;
+    }
+    const range = this.splitRange(editor);
+    if (range == null) {
+      new Notice(
+        "Select the text to split off, or place the cursor in a heading section below the title"
+      );
+      return;
+    }
+    const original = editor.getRange(range.from, range.to);
+    const lines = original.trim().split("\n");
+    const title = lines[0].replace(/^#{1,6}\s+/, "").trim();
+    const body = lines.slice(1).join("\n").trim();
+
+    const id = this.makeNoteForNextChildOf(file);
+    const folder = this.app.fileManager.getNewFileParent(file.path).path;
+    const path = normalizePath(
+      `${folder}/${this.zettelFilename(id, sanitizeFilename(title), folder)}.md`
+    );
+    await this.makeNote(
+      path,
+      title,
+      `[[${file.basename}]]`,
+      false,
+      undefined,
+      body,
+      id
+    );
+    const child = this.app.vault.getAbstractFileByPath(path);
+    if (!(child instanceof TFile)) {
+      // makeNote has already said why
+      return;
+    }
+    if (body !== "") {
+      // Templates without {{selection}} would drop the text
+      await this.app.vault.process(child, (content) =>
+        content.includes(body)
+          ? content
+          : content.trimEnd() + "\n\n" + body + "\n"
+      );
+    }
+    const leading = original.match(/^\s*/)?.[0] ?? "";
+    const trailing = original.match(/\s*$/)?.[0] ?? "";
+    editor.replaceRange(
+      leading + (await this.zettelLink(child)) + trailing,
+      range.from,
+      range.to
+    );
+    new Notice(`Split into ${id}`);
+  }
+
+  /** The selection, or the heading section around the cursor up to the
+   * next heading of the same or a higher level. The note's title (its first
+   * H1) can't be split off. */
+  splitRange(
+    editor: Editor
+  ): { from: EditorPosition; to: EditorPosition } | null {
+    if (editor.somethingSelected()) {
+      const { anchor, head } = editor.listSelections()[0];
+      const anchorFirst =
+        anchor.line < head.line ||
+        (anchor.line == head.line && anchor.ch <= head.ch);
+      return anchorFirst
+        ? { from: anchor, to: head }
+        : { from: head, to: anchor };
+    }
+
+    const levels: number[] = [];
+    let inCodeBlock = false;
+    for (let line = 0; line <= editor.lastLine(); line++) {
+      const text = editor.getLine(line);
+      if (/^\s*(```|~~~)/.test(text)) {
+        inCodeBlock = !inCodeBlock;
+      }
+      const level = text.match(/^(#{1,6})\s/)?.[1].length ?? 0;
+      levels.push(inCodeBlock ? 0 : level);
+    }
+    let start = editor.getCursor().line;
+    while (start >= 0 && levels[start] == 0) {
+      start--;
+    }
+    if (
+      start < 0 ||
+      (levels[start] == 1 && !levels.slice(0, start).includes(1))
+    ) {
+      return null;
+    }
+    let end = start + 1;
+    while (
+      end < levels.length &&
+      (levels[end] == 0 || levels[end] > levels[start])
+    ) {
+      end++;
+    }
+    const lastLine = editor.lastLine();
+    return {
+      from: { line: start, ch: 0 },
+      to:
+        end > lastLine
+          ? { line: lastLine, ch: editor.getLine(lastLine).length }
+          : { line: end, ch: 0 },
+    };
+  }
+
+  /** Appends the zettel's body to `target` under a heading with its title,
+   * points its backlinks at that heading and deletes it. Its siblings close
+   * the gap, and its children either move under the target or keep their
+   * IDs. */
+  async mergeZettel(file: TFile, target: TFile, children: ZettelMergeChildren) {
+    const id = this.zettelID(file);
+    const targetID = this.zettelID(target);
+    const heading = ((await this.zettelTitle(file)) ?? file.basename)
+      .replace(/[#^|[\]]/g, "")
+      .trim();
+
+    // Planned while the index still has the merged zettel
+    const childIDs = this.zettelIndex.childIDs(id);
+    const plan: Map<TFile, string> = new Map();
+    if (children == "rehome" || childIDs.length == 0) {
+      this.planGapClose(id).forEach((newID, f) => plan.set(f, newID));
+      const newTargetID = plan.get(target) ?? targetID;
+      let position = Math.max(
+        0,
+        ...this.getDirectChildZettels(targetID)
+          .filter((child) => child !== file)
+          .map((child) => plan.get(child) ?? this.zettelID(child))
+          .filter((childID) => this.parentID(childID) == newTargetID)
+          .map((childID) => this.idScheme.position(childID))
+      );
+      for (const childID of childIDs.sort((a, b) =>
+        this.idScheme.compare(a, b)
+      )) {
+        position++;
+        this.planSubtreeMove(
+          childID,
+          this.childIDAt(newTargetID, position)
+        ).forEach((newID, f) => plan.set(f, newID));
+      }
+    }
+    // Nothing is touched unless the renames can run once the zettel is gone
+    const renames = this.planRenames(plan, [file]);
+    if (renames == null) {
+      return;
+    }
+
+    const body = (await this.app.vault.read(file))
+      .replace(/^---\r?\n[\s\S]*?\r?\n---(\r?\n|$)/, "")
+      .replace(NAV_BLOCK_REGEX, "")
+      .replace(/^# .*$/m, "")
+      .trim();
+    // Before the target changes, while the cached link positions still hold
+    const rewritten = await this.rewriteBacklinks(file, target, heading);
+    const section = `## ${heading}` + (body === "" ? "" : "\n\n" + body);
+    await this.app.vault.process(target, (content) => {
+      const nav = content.match(NAV_BLOCK_REGEX);
+      if (nav?.index == null) {
+        return content.trimEnd() + "\n\n" + section + "\n";
+      }
+      return (
+        content.slice(0, nav.index).trimEnd() +
+        "\n\n" +
+        section +
+        "\n\n" +
+        content.slice(nav.index)
+      );
+    });
+    await this.app.vault.trash(file, true);
+
+    if (
+      renames.length == 0 ||
+      (await this.runRenames(`Merge ${id} into ${targetID}`, renames, false))
+    ) {
+      new Notice(
+        `Merged ${id} into ${targetID} and updated ${rewritten} link${
+          rewritten == 1 ? "" : "s"
+        }. This can't be undone.`
+      );
+    }
+  }
+
+  /** Points every link to `from` at `to`. Links without a subpath go to
+   * `heading` in `to`, and aliases are kept. Returns how many links changed. */
+  async rewriteBacklinks(
+    from: TFile,
+    to: TFile,
+    heading: string
+  ): Promise<number> {
+    const { metadataCache, vault, fileManager } = this.app;
+    let rewritten = 0;
+    for (const [sourcePath, links] of Object.entries(
+      metadataCache.resolvedLinks
+    )) {
+      const source = vault.getAbstractFileByPath(sourcePath);
+      if (!links[from.path] || source === from || !(source instanceof TFile)) {
+        continue;
+      }
+      const cache = metadataCache.getFileCache(source);
+      const references = [...(cache?.links ?? []), ...(cache?.embeds ?? [])]
+        .filter(
+          (reference) =>
+            metadataCache.getFirstLinkpathDest(
+              getLinkpath(reference.link),
+              sourcePath
+            ) === from
+        )
+        // Back to front, so earlier offsets stay valid
+        .sort((a, b) => b.position.start.offset - a.position.start.offset);
+      await vault.process(source, (content) => {
+        for (const reference of references) {
+          const { start, end } = reference.position;
+          if (content.slice(start.offset, end.offset) !== reference.original) {
+            // The note changed since it was cached
+            continue;
+          }
+          const hashIndex = reference.link.indexOf("#");
+          const subpath =
+            hashIndex >= 0 ? reference.link.slice(hashIndex) : `#${heading}`;
+          const hasAlias =
+            reference.original.includes("|") ||
+            !reference.original.includes("[[");
+          const link = fileManager.generateMarkdownLink(
+            to,
+            sourcePath,
+            subpath,
+            hasAlias ? reference.displayText : undefined
+          );
+          content =
+            content.slice(0, start.offset) +
+            (reference.original.startsWith("!") ? "!" : "") +
+            link +
+            content.slice(end.offset);
+          rewritten++;
+        }
+        return content;
+      });
+    }
+    return rewritten;
+  }
+
+  /** Plans deleting the zettel. Its children are deleted with it, promoted
+   * into its place as if each were outdented in turn, or keep their IDs
+   * under a tombstone note. `closeGap` shifts the later siblings up when
+   * nothing takes its place. */
+  planDeletion(
+    file: TFile,
+    children: ZettelDeleteChildren,
+    closeGap: boolean
+  ): ZettelDeletion {
+    const id = this.zettelID(file);
+    const childIDs = this.zettelIndex
+      .childIDs(id)
+      .sort((a, b) => this.idScheme.compare(a, b));
+    if (childIDs.length == 0 || children == "subtree") {
+      const descendants = this.getSubtreeZettels(id).filter(
+        (zettel) => this.zettelID(zettel) !== id
+      );
+      return {
+        deleted: [file, ...this.sortZettels(descendants)],
+        plan: closeGap ? this.planGapClose(id) : new Map(),
+        tombstone: false,
+      };
+    }
+    if (children == "orphan") {
+      return { deleted: [file], plan: new Map(), tombstone: true };
+    }
+
+    const plan: Map<TFile, string> = new Map();
+    const parentID = this.parentID(id);
+    const position = this.idScheme.position(id);
+    const shift = childIDs.length - 1;
+    if (shift > 0) {
+      for (const siblingID of this.zettelIndex.childIDs(parentID)) {
+        const siblingPosition = this.idScheme.position(siblingID);
+        if (siblingPosition > position) {
+          this.planSubtreeMove(
+            siblingID,
+            this.childIDAt(parentID, siblingPosition + shift)
+          ).forEach((newID, f) => plan.set(f, newID));
+        }
+      }
+    }
+    childIDs.forEach((childID, i) =>
+      this.planSubtreeMove(
+        childID,
+        this.childIDAt(parentID, position + i)
+      ).forEach((newID, f) => plan.set(f, newID))
+    );
+    return { deleted: [file], plan, tombstone: false };
+  }
+
+  async deleteZettel(file: TFile, deletion: ZettelDeletion) {
+    const id = this.zettelID(file);
+    const title = (await this.zettelTitle(file)) ?? file.basename;
+    const children = this.sortZettels(this.getDirectChildZettels(id));
+    // Nothing is touched unless the renames can run once the files are gone
+    const renames = this.planRenames(deletion.plan, deletion.deleted);
+    if (renames == null) {
+      return;
+    }
+    for (const deleted of deletion.deleted) {
+      await this.app.vault.trash(deleted, true);
+    }
+    if (deletion.tombstone) {
+      await this.createTombstone(file.path, id, title, children);
+    }
+    if (
+      renames.length == 0 ||
+      (await this.runRenames(`Delete ${id}`, renames, false))
+    ) {
+      new Notice(
+        (deletion.deleted.length == 1
+          ? `Deleted ${id}`
+          : `Deleted ${id} and ${deletion.deleted.length - 1} descendants`) +
+          ". This can't be undone."
+      );
+    }
+  }
+
+  /** A note in place of a deleted zettel, so its children keep a parent */
+  async createTombstone(
+    path: string,
+    id: string,
+    title: string,
+    children: TFile[]
+  ) {
+    const links = children.map(
+      (child) => `- ${this.app.fileManager.generateMarkdownLink(child, path)}`
+    );
+    const tombstone = await this.app.vault.create(
+      path,
+      `# ${title} (deleted)\n\nThis zettel was deleted. Its children keep their IDs:\n\n${links.join(
+        "\n"
+      )}\n`
+    );
+    if (this.usesFrontmatterIDs()) {
+      await this.setFrontmatterID(tombstone, id);
+    }
+  }
+
+  describeDeletion(deletion: ZettelDeletion): string[] {
+    const { deleted, plan, tombstone } = deletion;
+    return [
+      ...deleted.map(
+        (file) => `${file.path} → ${tombstone ? "tombstone note" : "trash"}`
+      ),
+      ...this.describePlan(plan),
+    ];
+  }
+
+  /** Creates the file, or replaces its content if it exists */
+  async writeFile(path: string, data: string): Promise<TFile> {
+    const existing = this.app.vault.getAbstractFileByPath(path);
+    if (existing instanceof TFile) {
+      await this.app.vault.modify(existing, data);
+      return existing;
+    }
+    return await this.app.vault.create(path, data);
+  }
+
+  /** Writes the branch to a canvas next to its root, named after it.
+   * Running it again replaces the canvas. */
+  async exportBranchCanvas(root: TFile) {
+    const canvas = await this.branchCanvas(root);
+    const path = normalizePath(
+      `${root.parent?.path ?? ""}/${root.basename}.canvas`
+    );
+    const file = await this.writeFile(path, JSON.stringify(canvas, null, "\t"));
+    await this.app.workspace.getLeaf().openFile(file);
+    new Notice(`Exported ${canvas.nodes.length} zettels to ${path}`);
+  }
+
+  /** Lays the branch out as a tree from left to right, with one card per
+   * zettel, edges from parents to children and coloured edges for the
+   * links between zettels of the branch. Links in the navigation block and
+   * between parents and children are left out, the tree shows them. */
+  async branchCanvas(root: TFile): Promise<CanvasData> {
+    const nodes: CanvasFileData[] = [];
+    const edges: CanvasEdgeData[] = [];
+    const treeEdges: Set<string> = new Set();
+    let leaves = 0;
+
+    // Leaves get a row each, parents are centred on their children
+    const layout = (file: TFile, depth: number): number => {
+      const children = this.sortZettels(
+        this.getDirectChildZettels(this.zettelID(file))
+      ).filter((child) => !nodes.some((node) => node.file === child.path));
+      let y = leaves * (CANVAS_CARD_HEIGHT + CANVAS_GAP_Y);
+      if (children.length == 0) {
+        leaves++;
+      } else {
+        const childYs = children.map((child) => {
+          edges.push({
+            id: `child:${file.path}:${child.path}`,
+            fromNode: file.path,
+            fromSide: "right",
+            toNode: child.path,
+            toSide: "left",
+          });
+          treeEdges.add(`${file.path}\n${child.path}`);
+          treeEdges.add(`${child.path}\n${file.path}`);
+          return layout(child, depth + 1);
+        });
+        y = (childYs[0] + childYs[childYs.length - 1]) / 2;
+      }
+      nodes.push({
+        id: file.path,
+        type: "file",
+        file: file.path,
+        x: depth * (CANVAS_CARD_WIDTH + CANVAS_GAP_X),
+        y,
+        width: CANVAS_CARD_WIDTH,
+        height: CANVAS_CARD_HEIGHT,
+      });
+      return y;
+    };
+    layout(root, 0);
+
+    const placed = new Map(nodes.map((node) => [node.file, node]));
+    for (const from of nodes) {
+      const source = this.app.vault.getAbstractFileByPath(from.file);
+      if (!(source instanceof TFile)) {
+        continue;
+      }
+      const content = await this.app.vault.cachedRead(source);
+      const nav = content.match(NAV_BLOCK_REGEX);
+      const navStart = nav?.index ?? -1;
+      const navEnd = navStart + (nav?.[0].length ?? 0);
+      const cache = this.app.metadataCache.getFileCache(source);
+      for (const reference of [
+        ...(cache?.links ?? []),
+        ...(cache?.embeds ?? []),
+      ]) {
+        const offset = reference.position.start.offset;
+        if (offset >= navStart && offset < navEnd) {
+          continue;
+        }
+        const target = this.app.metadataCache.getFirstLinkpathDest(
+          getLinkpath(reference.link),
+          source.path
+        );
+        const to = target && placed.get(target.path);
+        const id = `link:${from.file}:${to?.file}`;
+        if (
+          to == null ||
+          to === from ||
+          treeEdges.has(`${from.file}\n${to.file}`) ||
+          edges.some((edge) => edge.id === id)
+        ) {
+          continue;
+        }
+        const [fromSide, toSide]: NodeSide[] =
+          to.x > from.x
+            ? ["right", "left"]
+            : to.x < from.x
+            ? ["left", "right"]
+            : to.y > from.y
+            ? ["bottom", "top"]
+            : ["top", "bottom"];
+        edges.push({
+          id,
+          fromNode: from.id,
+          fromSide,
+          toNode: to.id,
+          toSide,
+          color: CANVAS_LINK_COLOR,
+        });
+      }
+    }
+    return { nodes, edges };
+  }
+
+  /** Compiles the branch into one Markdown document in reading order, with
+   * heading levels following the depth of the IDs. Links within the branch
+   * become anchors to the headings, links leaving it become footnotes. */
+  async compileBranch(root: TFile): Promise<CompiledBranch> {
+    const rootID = this.zettelID(root);
+    const rootDepth = this.idScheme.depth(rootID);
+    const path = normalizePath(
+      `${this.compileFolder()}/${root.basename}-compiled.md`
+    );
+    const files = this.sortZettels(
+      this.getSubtreeZettels(rootID).filter(
+        (file) => file === root || this.zettelID(file) !== rootID
+      )
+    );
+    const { metadataCache, vault, fileManager } = this.app;
+
+    // Links point at headings by their text, the way Obsidian resolves
+    // them, so titles can't have characters that end a link
+    const titles: Map<TFile, string> = new Map();
+    for (const file of files) {
+      const title = (await this.zettelTitle(file)) ?? file.basename;
+      titles.set(file, title.replace(/[#^|[\]]/g, "").trim());
+    }
+
+    const footnotes: Map<string, number> = new Map();
+    const footnoteLines: string[] = [];
+    const sections: string[] = [];
+    for (const file of files) {
+      const level = Math.min(
+        6,
+        this.idScheme.depth(this.zettelID(file)) - rootDepth + 1
+      );
+      const content = await vault.cachedRead(file);
+      const cache = metadataCache.getFileCache(file);
+      const nav = content.match(NAV_BLOCK_REGEX);
+      const navStart = nav?.index ?? -1;
+      const navEnd = navStart + (nav?.[0].length ?? 0);
+      const edits: { start: number; end: number; text: string }[] = [];
+
+      // The title becomes the section heading, the other headings move down
+      const headings = cache?.headings ?? [];
+      const titleHeading = headings.find((heading) => heading.level == 1);
+      const titleStart = titleHeading?.position.start.offset ?? -1;
+      const lineEnd = content.indexOf("\n", titleHeading?.position.end.offset);
+      const titleEnd = !titleHeading
+        ? -1
+        : lineEnd < 0
+        ? content.length
+        : lineEnd + 1;
+      for (const heading of headings) {
+        const start = heading.position.start.offset;
+        if (heading === titleHeading) {
+          edits.push({ start, end: titleEnd, text: "" });
+        } else if (content.startsWith("#".repeat(heading.level), start)) {
+          edits.push({
+            start,
+            end: start + heading.level,
+            text: "#".repeat(Math.min(6, heading.level + level - 1)),
+          });
+        }
+      }
+
+      const references = [
+        ...(cache?.links ?? []),
+        ...(cache?.embeds ?? []),
+      ].sort((a, b) => a.position.start.offset - b.position.start.offset);
+      for (const reference of references) {
+        const { start, end } = reference.position;
+        if (
+          (start.offset >= navStart && start.offset < navEnd) ||
+          (start.offset >= titleStart && start.offset < titleEnd) ||
+          content.slice(start.offset, end.offset) !== reference.original
+        ) {
+          continue;
+        }
+        const isEmbed = reference.original.startsWith("!");
+        const target = metadataCache.getFirstLinkpathDest(
+          getLinkpath(reference.link),
+          file.path
+        );
+        const display = reference.displayText ?? reference.link;
+        const targetTitle = target && titles.get(target);
+        let text: string;
+        if (targetTitle != null) {
+          // Embedded zettels of the branch are in the document already
+          const subpath = reference.link.split("#").slice(1);
+          const heading =
+            subpath.length == 0 || subpath[0].startsWith("^")
+              ? targetTitle
+              : subpath[subpath.length - 1];
+          text = `[[#${heading}|${display}]]`;
+        } else if (isEmbed && target == null) {
+          // Nothing to show
+          text = "";
+        } else if (isEmbed && target != null && target.extension !== "md") {
+          // Attachments are embedded again, relative to the document
+          text =
+            "!" +
+            fileManager.generateMarkdownLink(
+              target,
+              path,
+              undefined,
+              reference.original.includes("|") ? display : undefined
+            );
+        } else {
+          const key = target?.path ?? getLinkpath(reference.link);
+          let footnote = footnotes.get(key);
+          if (footnote == null) {
+            footnote = footnotes.size + 1;
+            footnotes.set(key, footnote);
+            const link = target
+              ? fileManager.generateMarkdownLink(
+                  target,
+                  path,
+                  undefined,
+                  (await this.zettelTitle(target)) ?? undefined
+                )
+              : key;
+            footnoteLines.push(`[^${footnote}]: ${link}`);
+          }
+          text = `${display}[^${footnote}]`;
+        }
+        edits.push({ start: start.offset, end: end.offset, text });
+      }
+
+      let body = content;
+      // Back to front, so earlier offsets stay valid
+      for (const { start, end, text } of edits.sort(
+        (a, b) => b.start - a.start
+      )) {
+        body = body.slice(0, start) + text + body.slice(end);
+      }
+      body = body
+        .replace(/^---\r?\n[\s\S]*?\r?\n---(\r?\n|$)/, "")
+        .replace(NAV_BLOCK_REGEX, "")
+        .trim();
+      sections.push(
+        `${"#".repeat(level)} ${titles.get(file)}` +
+          (body === "" ? "" : "\n\n" + body)
+      );
+    }
+
+    if (footnoteLines.length > 0) {
+      sections.push(footnoteLines.join("\n"));
+    }
+    const markdown = sections.join("\n\n") + "\n";
+    return { root, path, markdown, notes: files.length };
+  }
+
+  /** Renders the compiled Markdown the way Obsidian shows it, with the
+   * heading anchors links point to */
+  async compiledHTML(compiled: CompiledBranch): Promise<string> {
+    const el = createDiv();
+    const component = new Component();
+    component.load();
+    await MarkdownRenderer.renderMarkdown(
+      compiled.markdown,
+      el,
+      compiled.path,
+      component
+    );
+    component.unload();
+    // Targets for the [[#Heading]] links, which render as href="#Heading"
+    el.querySelectorAll("h1, h2, h3, h4, h5, h6").forEach((heading) => {
+      heading.id =
+        heading.getAttribute("data-heading") ?? heading.textContent ?? "";
+    });
+    const title = createEl("title", { text: compiled.root.basename });
+    return [
+      "<!DOCTYPE html>",
+      "<html>",
+      "<head>",
+      '<meta charset="utf-8">',
+      title.outerHTML,
+      "</head>",
+      "<body>",
+      el.innerHTML,
+      "</body>",
+      "</html>",
+      "",
+    ].join("\n");
+  }
+
+  async writeCompiledBranch(compiled: CompiledBranch, html: boolean) {
+    const existing = this.app.vault.getAbstractFileByPath(compiled.path);
+    if (existing instanceof TFile && this.isIndexedZettel(existing)) {
+      new Notice(`Can't compile: ${compiled.path} is a zettel`);
+      return;
+    }
+    const folder = this.compileFolder();
+    if (this.app.vault.getAbstractFileByPath(folder) == null) {
+      await this.app.vault.createFolder(folder);
+    }
+    const file = await this.writeFile(compiled.path, compiled.markdown);
+    if (html) {
+      await this.writeFile(
+        compiled.path.replace(/\.md$/, ".html"),
+        await this.compiledHTML(compiled)
+      );
+    }
+    await this.app.workspace.getLeaf().openFile(file);
+    new Notice(`Compiled ${compiled.notes} zettels into ${compiled.path}`);
+  }
+
+  /** Opens the zettel `find` picks relative to the current one, or shows
+   * why there is none */
+  openRelativeZettel(
+    find: (id: string) => TFile | undefined,
+    noneMessage: (id: string) => string
+  ) {
+    const file = this.currentFile();
+    if (file == null || !this.isZettelFile(file)) {
+      new Notice("No zettel open");
+      return;
+    }
+    const id = this.zettelID(file);
+    const target = find(id);
+    if (target == null) {
+      new Notice(noneMessage(id));
+      return;
+    }
+    this.openZettel(this.zettelID(target));
+  }
+
+  /** The zettel `step` places away in a depth-first walk of the whole
+   * tree. Sorting by ID already puts every zettel before its descendants
+   * and those before its next sibling. */
+  readingOrderNeighbour(id: string, step: 1 | -1): TFile | undefined {
+    const ids = Array.from(
+      new Set(
+        this.sortZettels(this.getZettels()).map((file) => this.zettelID(file))
+      )
+    );
+    const index = ids.indexOf(id);
+    const targetID = index < 0 ? undefined : ids[index + step];
+    return targetID == null
+      ? undefined
+      : this.zettelIndex.filesWithID(targetID).first();
+  }
+
+  currentlySelectedText(): string | undefined {
+    return this.app.workspace
+      .getActiveViewOfType(MarkdownView)
+      ?.editor.getSelection();
+  }
+
+  /** Captures the current selection so it can be replaced later on,
+   * keeping the whitespace around the selected words */
+  selectionReplacer(editor: Editor): (text: string) => void {
+    const selection = editor.getSelection();
+    const selectionTrimStart = selection.trimStart();
+    const selectionTrimEnd = selectionTrimStart.trimEnd();
+    const spaceBefore = selection.length - selectionTrimStart.length;
+    const spaceAfter = selectionTrimStart.length - selectionTrimEnd.length;
+    const selectionPos = editor.listSelections()[0];
+    /* By default the anchor is what ever position the selection started
+       how ever replaceRange does not accept it both ways and
+       gets weird if we just pass in the anchor then the head
+       so here we create a vertual anchor and head position to pass in */
+    const anchorCorrect =
+      selectionPos.anchor.line == selectionPos.head.line // If the anchor and head are on the same line
+        ? selectionPos.anchor.ch <= selectionPos.head.ch // Then if anchor is before the head
+        : selectionPos.anchor.line < selectionPos.head.line; // else they are not on the same line and just check if anchor is before head
+
+    const virtualAnchor = anchorCorrect
+      ? selectionPos.anchor
+      : selectionPos.head;
+    const virtualHead = anchorCorrect ? selectionPos.head : selectionPos.anchor;
+
+    return (text: string) => {
+      editor.replaceRange(
+        " ".repeat(spaceBefore) + text + " ".repeat(spaceAfter),
+        virtualAnchor,
+        virtualHead
+      );
+    };
+  }
+
+  /** The H1 of the note, or its first alias */
+  async zettelTitle(file: TFile): Promise<string | null> {
+    const aliases = parseFrontMatterAliases(
+      this.app.metadataCache.getFileCache(file)?.frontmatter
+    );
+    return (await this.getNoteTitle(file)) ?? aliases?.first() ?? null;
+  }
+
+  /** A link to the zettel in the format chosen in the settings. An alias
+   * (e.g: the selected text) replaces the one the format would add. */
+  async zettelLink(file: TFile, alias?: string): Promise<string> {
+    const id = this.zettelID(file);
+    let linkAlias = alias;
+    if (linkAlias == null) {
+      switch (this.settings.insertLinkFormat) {
+        case "id":
+          linkAlias = id;
+          break;
+        case "title":
+          linkAlias = (await this.zettelTitle(file)) ?? undefined;
+          break;
+        default:
+          if (this.settings.useLinkAlias) {
+            linkAlias = (await this.zettelTitle(file)) ?? undefined;
+          }
+      }
+    }
+    return linkAlias && linkAlias !== file.basename
+      ? `[[${file.basename}|${linkAlias}]]`
+      : `[[${file.basename}]]`;
+  }
+
+  insertTextIntoCurrentNote(text: string) {
+    const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+
+    if (view) {
+      const editor = view!.editor;
+
+      let position: EditorPosition;
+      let prefix = "";
+
+      if (editor.getSelection()) {
+        const selectionPos = editor.listSelections()[0];
+        const positionCH = Math.max(
+          selectionPos.head.ch,
+          selectionPos.anchor.ch
+        );
+        position = { line: selectionPos.anchor.line, ch: positionCH + 1 };
+        prefix = " ";
+      } else {
+        position = editor.getCursor();
+      }
+
+      return () => {
+        editor.replaceRange(prefix + text, position, position);
+      };
+    }
+  }
+
+  isIgnoredPath(path: string): boolean {
+    const compileFolder = this.compileFolder();
+    return (
+      /^(_layouts|templates|scripts)/.test(path) ||
+      path.startsWith(compileFolder + "/")
+    );
+  }
+
+  compileFolder(): string {
+    return this.settings.compileFolder || DEFAULT_SETTINGS.compileFolder;
+  }
+
+  isIndexedZettel(file: TFile): boolean {
+    return !this.isIgnoredPath(file.path) && this.zettelID(file) !== "";
+  }
+
+  getZettels(): TFile[] {
+    return this.zettelIndex.zettels();
+  }
+
+  getDirectChildZettels(ofParent: string): TFile[] {
+    return this.zettelIndex
+      .childIDs(ofParent)
+      .flatMap((id) => this.zettelIndex.filesWithID(id));
+  }
+
+  getRootZettels(): TFile[] {
+    // Zettels whose parent doesn't exist are shown at the top level too,
+    // otherwise they would be unreachable in the tree
+    return this.sortZettels(
+      this.getZettels().filter(
+        (file) => !this.idExists(this.parentID(this.zettelID(file)))
+      )
+    );
+  }
+
+  /** The first H1 according to the metadata cache, or undefined if the
+   * file hasn't been cached yet */
+  cachedNoteTitle(file: TFile): string | null | undefined {
+    const cache = this.app.metadataCache.getFileCache(file);
+    if (cache == null) {
+      return undefined;
+    }
+    return (
+      cache.headings?.find((heading) => heading.level == 1)?.heading ?? null
+    );
+  }
+
+  async getNoteTitle(file: TFile): Promise<string | null> {
+    const cachedTitle = this.cachedNoteTitle(file);
+    if (cachedTitle !== undefined) {
+      return cachedTitle;
+    }
+    const regex = /# (.+)\s*/;
+    const text = await this.app.vault.cachedRead(file);
+    const match = text.match(regex);
+    return match ? match[1] : null;
+  }
+
+  /** Titles of the ancestors of the ID, starting at the root */
+  breadcrumb(id: string): string[] {
+    const crumbs: string[] = [];
+    let ancestorID = this.parentID(id);
+    while (ancestorID !== "") {
+      const ancestor = this.zettelIndex.filesWithID(ancestorID).first();
+      crumbs.unshift(
+        (ancestor && this.cachedNoteTitle(ancestor)) || ancestorID
+      );
+      ancestorID = this.parentID(ancestorID);
+    }
+    return crumbs;
+  }
+
+  /** Built from the metadata cache and the index, so nothing is read from disk */
+  zettelSearchEntries(): ZettelSearchEntry[] {
+    return this.sortZettels(this.getZettels()).map((file) => {
+      const id = this.zettelID(file);
+      const frontmatter =
+        this.app.metadataCache.getFileCache(file)?.frontmatter;
+      return {
+        file,
+        id,
+        title: this.cachedNoteTitle(file) ?? "",
+        aliases: parseFrontMatterAliases(frontmatter) ?? [],
+        excerpt: this.settings.searchNoteBody
+          ? this.zettelIndex.excerptOf(file)
+          : "",
+        breadcrumb: this.breadcrumb(id),
+      };
+    });
+  }
+}
+
+/** The first paragraph of a note, skipping frontmatter and headings */
+function firstParagraph(content: string): string {
+  const body = content
+    .replace(/^---\r?\n[\s\S]*?\r?\n---(\r?\n|$)/, "")
+    .split("\n")
+    .filter((line) => !/^#{1,6}\s/.test(line))
+    .join("\n");
+  const paragraph = body
+    .split(/\n\s*\n/)
+    .map((block) => block.trim())
+    .find((block) => block !== "");
+  return (paragraph ?? "").replace(/\s+/g, " ").slice(0, 200);
+}
+
+/** Removes characters that aren't allowed in filenames or break links */
+function sanitizeFilename(name: string): string {
+  return name
+    .replace(/[\\/:*?"<>|#^[\]]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function toCSV(rows: string[][]): string {
+  const quote = (field: string) =>
+    /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+  return rows.map((row) => row.map(quote).join(",")).join("\n") + "\n";
+}
+
+function parseCSV(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char == '"' && text[i + 1] == '"') {
+        field += '"';
+        i++;
+      } else if (char == '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char == '"') {
+      quoted = true;
+    } else if (char == ",") {
+      row.push(field);
+      field = "";
+    } else if (char == "\n") {
+      rows.push([...row, field]);
+      row = [];
+      field = "";
+    } else if (char != "\r") {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    rows.push([...row, field]);
+  }
+  return rows;
+}
+
+/** Keeps IDs and parent/child relations of all zettels in memory so
+ * lookups don't have to scan the whole vault */
+class ZettelIndex {
+  private plugin: NewZettel;
+  private stale = true;
+  private idsByFile: Map<TFile, string> = new Map();
+  private filesByID: Map<string, TFile[]> = new Map();
+  private childrenByID: Map<string, Set<string>> = new Map();
+  private excerpts: Map<TFile, string> = new Map();
+
+  constructor(plugin: NewZettel) {
+    this.plugin = plugin;
+  }
+
+  invalidate() {
+    this.stale = true;
+  }
+
+  rebuild() {
+    this.idsByFile.clear();
+    this.filesByID.clear();
+    this.childrenByID.clear();
+    for (const file of this.plugin.app.vault.getMarkdownFiles()) {
+      this.add(file);
+    }
+    this.stale = false;
+  }
+
+  update(file: TAbstractFile) {
+    this.remove(file);
+    if (file instanceof TFile) {
+      this.add(file);
+    }
+  }
+
+  remove(file: TAbstractFile) {
+    if (!(file instanceof TFile)) {
+      // A folder was moved or deleted, which may affect any of its files
+      this.invalidate();
+      return;
+    }
+    const id = this.idsByFile.get(file);
+    if (id == null) {
+      return;
+    }
+    this.idsByFile.delete(file);
+    const remaining = (this.filesByID.get(id) ?? []).filter((f) => f !== file);
+    if (remaining.length > 0) {
+      this.filesByID.set(id, remaining);
+      return;
+    }
+    this.filesByID.delete(id);
+    const parentID = this.plugin.parentID(id);
+    const siblings = this.childrenByID.get(parentID);
+    siblings?.delete(id);
+    if (siblings?.size == 0) {
+      this.childrenByID.delete(parentID);
+    }
+  }
+
+  /** Forgets everything about a deleted file */
+  delete(file: TAbstractFile) {
+    this.remove(file);
+    if (file instanceof TFile) {
+      this.excerpts.delete(file);
+    }
+  }
+
+  has(id: string): boolean {
+    return this.filesWithID(id).length > 0;
+  }
+
+  excerptOf(file: TFile): string {
+    return this.excerpts.get(file) ?? "";
+  }
+
+  updateExcerpt(file: TFile, content: string) {
+    if (this.idsByFile.has(file)) {
+      this.excerpts.set(file, firstParagraph(content));
+    }
+  }
+
+  /** Reads the zettels that don't have an excerpt yet */
+  async loadExcerpts() {
+    for (const file of this.zettels()) {
+      if (!this.excerpts.has(file)) {
+        this.updateExcerpt(file, await this.plugin.app.vault.cachedRead(file));
+      }
+    }
+  }
+
+  /** The indexed ID of the file, which outlives the file's frontmatter */
+  idOf(file: TFile): string | undefined {
+    this.ensureFresh();
+    return this.idsByFile.get(file);
+  }
+
+  /** Usually a single file, but duplicate IDs are possible */
+  filesWithID(id: string): TFile[] {
+    this.ensureFresh();
+    return this.filesByID.get(id) ?? [];
+  }
+
+  childIDs(parentID: string): string[] {
+    this.ensureFresh();
+    return Array.from(this.childrenByID.get(parentID) ?? []);
+  }
+
+  zettels(): TFile[] {
+    this.ensureFresh();
+    return Array.from(this.idsByFile.keys());
+  }
+
+  private add(file: TFile) {
+    if (file.extension != "md" || !this.plugin.isIndexedZettel(file)) {
+      return;
+    }
+    const id = this.plugin.zettelID(file);
+    this.idsByFile.set(file, id);
+    this.filesByID.set(id, [...(this.filesByID.get(id) ?? []), file]);
+    const parentID = this.plugin.parentID(id);
+    const siblings = this.childrenByID.get(parentID) ?? new Set();
+    siblings.add(id);
+    this.childrenByID.set(parentID, siblings);
+  }
+
+  private ensureFresh() {
+    if (this.stale) {
+      this.rebuild();
+    }
+  }
+}
+
+type ZettelModelCallback = (text: string, options: ZettelModelOptions) => void;
+type ZettelModelOptions = {
+  openNewZettel: boolean;
+};
+
+const MakeZettelModelOptionDefault: () => ZettelModelOptions = () => ({
+  openNewZettel: true,
+});
+
+class NewZettelModal extends Modal {
+  public completion: ZettelModelCallback;
+  private textBox: HTMLInputElement;
+  private openNewZettelCheckbox: HTMLInputElement;
+
+  constructor(
+    app: App,
+    completion: ZettelModelCallback,
+    options: ZettelModelOptions = MakeZettelModelOptionDefault()
+  ) {
+    super(app);
+    this.completion = completion;
+
+    /***********************************
+     ** Model Title                   **
+     ***********************************/
+    const { contentEl } = this;
+    contentEl.parentElement!.addClass("zettel-modal");
+    this.titleEl.setText("New zettel title...");
+
+    /***********************************
+     ** Name and GO area              **
+     ***********************************/
+
+    // Setup the container
+    const main_container = contentEl.createEl("div", {
+      cls: "zettel-modal-container",
+    });
+
+    // Add the textBox
+    this.textBox = contentEl.createEl("input", {
+      type: "text",
+      cls: "zettel-modal-textbox",
+    });
+    this.textBox.id = "zettel-modal-textbox";
+    this.textBox.addEventListener("keydown", (event) => {
+      if (event.key == "Enter") {
+        event.preventDefault();
+        this.goTapped();
+      }
+    });
+    main_container.append(this.textBox);
+
+    // Add the go button
+    const button = contentEl.createEl("input", {
+      type: "button",
+      value: "GO",
+      cls: "zettel-modal-button",
+    });
+    button.addEventListener("click", (e: Event) => this.goTapped());
+    main_container.append(button);
+
+    contentEl.append(main_container);
+
+    /***********************************
+     ** New Zettel Options            **
+     ***********************************/
+
+    // Setup the container
+    const options_container = contentEl.appendChild(
+      contentEl.createEl("div", {
+        cls: ["zettel-modal-container", "zettel-options-container"],
+      })
+    );
+    // Create label inside the container
+    const label = options_container.appendChild(
+      contentEl.createEl("label", {
+        cls: ["label", "zettel-label"],
+      })
+    );
+
+    // Create label
+    const openNewZettelCheckboxLabel = label.appendChild(
+      contentEl.createEl("div", { cls: ["labelText"] })
+    );
+    openNewZettelCheckboxLabel.innerText = "Open New Zettel on Creation";
+
+    // Create checkbox inside the container
+    this.openNewZettelCheckbox = label.appendChild(
+      contentEl.createEl("input", {
+        type: "checkbox",
+        cls: ["zettel-modal-checkbox"],
+        value: options.openNewZettel.toString(),
+      })
+    );
+    this.openNewZettelCheckbox.id = "zettel-modal-option-openZettel";
+    this.openNewZettelCheckbox.checked = options.openNewZettel;
+  }
+
+  onOpen() {
+    window.setTimeout(() => {
+      this.textBox.focus();
+    }, 0);
+  }
+
+  goTapped() {
+    const title = this.textBox.value;
+    const openNewZettel = this.openNewZettelCheckbox.checked;
+    this.completion(title, {
+      openNewZettel,
+    });
+    this.close();
+  }
+}
+
+/** Appends text to the element, wrapping the parts that matched a search
+ * in bold. `offset` is where the text starts in the searched string. */
+function renderMatchedText(
+  el: HTMLElement,
+  text: string,
+  matches: SearchMatches,
+  offset: number
+) {
+  let lastIndex = 0;
+  for (const [matchStart, matchEnd] of matches) {
+    const start = Math.max(matchStart - offset, lastIndex);
+    const end = Math.min(matchEnd - offset, text.length);
+    if (end <= start) {
+      continue;
+    }
+    el.appendText(text.slice(lastIndex, start));
+    el.createEl("b", { text: text.slice(start, end) });
+    lastIndex = end;
+  }
+  el.appendText(text.slice(lastIndex));
+}
+
+class ZettelSuggester extends FuzzySuggestModal<ZettelSearchEntry> {
+  private entries: ZettelSearchEntry[];
+  private completion: (file: TFile) => void;
+  private initialQuery: string;
+
+  constructor(
+    app: App,
+    entries: ZettelSearchEntry[],
+    search: string | undefined,
+    completion: (file: TFile) => void
+  ) {
+    super(app);
+    this.initialQuery = search ?? "";
+    this.entries = entries;
+    this.completion = completion;
+    this.emptyStateText = "No zettels found";
+    this.setPlaceholder("Search for a zettel by ID, title or alias...");
+  }
+
+  onOpen() {
+    super.onOpen();
+    this.inputEl.value = this.initialQuery;
+    const event = new Event("input");
+    this.inputEl.dispatchEvent(event);
+  }
+
+  getItems(): ZettelSearchEntry[] {
+    return this.entries;
+  }
+
+  private searchedParts(entry: ZettelSearchEntry): string[] {
+    return [entry.id, entry.title, ...entry.aliases, entry.excerpt];
+  }
+
+  getItemText(entry: ZettelSearchEntry): string {
+    return this.searchedParts(entry).join(" ");
+  }
+
+  renderSuggestion(value: FuzzyMatch<ZettelSearchEntry>, el: HTMLElement) {
+    const entry = value.item;
+    const matches = value.match.matches ?? [];
+    const [id, title, ...rest] = this.searchedParts(entry);
+    const aliases = rest.slice(0, -1);
+    let offset = 0;
+
+    el.addClass("zettel-suggestion");
+    const titleEl = el.createDiv({ cls: "zettel-suggestion-title" });
+    renderMatchedText(
+      titleEl.createSpan({ cls: "zettel-suggestion-id" }),
+      id,
+      matches,
+      offset
+    );
+    offset += id.length + 1;
+    if (title !== "") {
+      renderMatchedText(titleEl, title, matches, offset);
+    } else {
+      titleEl.appendText(entry.file.basename);
+    }
+    offset += title.length + 1;
+
+    if (aliases.length > 0) {
+      const aliasesEl = el.createDiv({ cls: "zettel-suggestion-note" });
+      aliases.forEach((alias, i) => {
+        if (i > 0) {
+          aliasesEl.appendText(", ");
+        }
+        renderMatchedText(aliasesEl, alias, matches, offset);
+        offset += alias.length + 1;
+      });
+    }
+    if (entry.excerpt !== "" && matches.some(([start]) => start >= offset)) {
+      renderMatchedText(
+        el.createDiv({ cls: "zettel-suggestion-note" }),
+        entry.excerpt,
+        matches,
+        offset
+      );
+    }
+    if (entry.breadcrumb.length > 0) {
+      el.createDiv({
+        cls: "zettel-suggestion-note",
+        text: entry.breadcrumb.join(" › "),
+      });
+    }
+  }
+
+  onChooseItem(entry: ZettelSearchEntry) {
+    this.completion(entry.file);
+  }
+}
+
+class ZettelMovePositionModal extends SuggestModal<ZettelMovePosition> {
+  private id: string;
+  private targetID: string;
+  private completion: (position: ZettelMovePosition) => void;
+
+  constructor(
+    app: App,
+    id: string,
+    targetID: string,
+    completion: (position: ZettelMovePosition) => void
+  ) {
+    super(app);
+    this.id = id;
+    this.targetID = targetID;
+    this.completion = completion;
+    this.setPlaceholder(`Where should ${id} go?`);
+  }
+
+  getSuggestions(query: string): ZettelMovePosition[] {
+    const positions: ZettelMovePosition[] = ["child", "before", "after"];
+    return positions.filter((position) =>
+      this.describe(position).toLowerCase().includes(query.toLowerCase())
+    );
+  }
+
+  describe(position: ZettelMovePosition): string {
+    switch (position) {
+      case "child":
+        return `Move ${this.id} under ${this.targetID} as its last child`;
+      case "before":
+        return `Move ${this.id} before ${this.targetID}`;
+      case "after":
+        return `Move ${this.id} after ${this.targetID}`;
+    }
+  }
+
+  renderSuggestion(position: ZettelMovePosition, el: HTMLElement) {
+    el.setText(this.describe(position));
+  }
+
+  onChooseSuggestion(position: ZettelMovePosition) {
+    this.completion(position);
+  }
+}
+
+class ZettelMergeChildrenModal extends SuggestModal<ZettelMergeChildren> {
+  private id: string;
+  private targetID: string;
+  private completion: (children: ZettelMergeChildren) => void;
+
+  constructor(
+    app: App,
+    id: string,
+    targetID: string,
+    completion: (children: ZettelMergeChildren) => void
+  ) {
+    super(app);
+    this.id = id;
+    this.targetID = targetID;
+    this.completion = completion;
+    this.setPlaceholder(`What should happen to the children of ${id}?`);
+  }
+
+  getSuggestions(query: string): ZettelMergeChildren[] {
+    const options: ZettelMergeChildren[] = ["rehome", "keep"];
+    return options.filter((option) =>
+      this.describe(option).toLowerCase().includes(query.toLowerCase())
+    );
+  }
+
+  describe(children: ZettelMergeChildren): string {
+    switch (children) {
+      case "rehome":
+        return `Move the children of ${this.id} under ${this.targetID}`;
+      case "keep":
+        return `Keep the IDs of the children of ${this.id}`;
+    }
+  }
+
+  renderSuggestion(children: ZettelMergeChildren, el: HTMLElement) {
+    el.setText(this.describe(children));
+  }
+
+  onChooseSuggestion(children: ZettelMergeChildren) {
+    this.completion(children);
+  }
+}
+
+class ZettelDeleteModal extends Modal {
+  private plugin: NewZettel;
+  private file: TFile;
+  private children: ZettelDeleteChildren = "subtree";
+  private closeGap = false;
+  private deletion: ZettelDeletion = {
+    deleted: [],
+    plan: new Map(),
+    tombstone: false,
+  };
+  private gapSetting: Setting;
+  private previewEl: HTMLElement;
+
+  constructor(app: App, plugin: NewZettel, file: TFile) {
+    super(app);
+    this.plugin = plugin;
+    this.file = file;
+
+    const { contentEl } = this;
+    const id = plugin.zettelID(file);
+    this.titleEl.setText(`Delete ${id}`);
+
+    if (plugin.getDirectChildZettels(id).length > 0) {
+      new Setting(contentEl)
+        .setName("Children")
+        .setDesc(`What should happen to the children of ${id}.`)
+        .addDropdown((dropdown) =>
+          dropdown
+            .addOption("subtree", "Delete them too")
+            .addOption("promote", `Move them into the place of ${id}`)
+            .addOption("orphan", "Keep their IDs under a tombstone note")
+            .setValue(this.children)
+            .onChange((value) => {
+              this.children = value as ZettelDeleteChildren;
+              this.updatePlan();
+            })
+        );
+    }
+    this.gapSetting = new Setting(contentEl)
+      .setName("Close the gap")
+      .setDesc(`Renumber the siblings after ${id} so no gap is left.`)
+      .addToggle((toggle) =>
+        toggle.setValue(this.closeGap).onChange((value) => {
+          this.closeGap = value;
+          this.updatePlan();
+        })
+      );
+
+    this.previewEl = contentEl.createDiv({ cls: "luhman-deletion-preview" });
+
+    new Setting(contentEl).addButton((button) =>
+      button
+        .setButtonText("Delete")
+        .setWarning()
+        .onClick(() => {
+          this.close();
+          this.plugin.deleteZettel(this.file, this.deletion);
+        })
+    );
+
+    this.updatePlan();
+  }
+
+  private updatePlan() {
+    this.deletion = this.plugin.planDeletion(
+      this.file,
+      this.children,
+      this.closeGap
+    );
+    // Promoted children and tombstones fill the place, there's no gap
+    this.gapSetting.settingEl.toggle(this.children == "subtree");
+    this.renderPreview();
+  }
+
+  private renderPreview() {
+    const { previewEl, deletion } = this;
+    previewEl.empty();
+    const affected = this.plugin.describeDeletion(deletion);
+    previewEl.createEl("strong", {
+      text: `${affected.length} files will be affected`,
+    });
+    const listEl = previewEl.createEl("ul", { cls: "zettel-rename-preview" });
+    for (const text of affected) {
+      listEl.createEl("li", { text });
+    }
+  }
+}
+
+class ZettelCompileModal extends Modal {
+  private html = false;
+
+  constructor(app: App, plugin: NewZettel, compiled: CompiledBranch) {
+    super(app);
+
+    const { contentEl } = this;
+    this.titleEl.setText(`Compile ${compiled.root.basename}`);
+    contentEl.createDiv({
+      text: `${compiled.notes} zettels will be written to ${compiled.path}`,
+    });
+    contentEl
+      .createDiv({ cls: "luhman-compile-preview" })
+      .createEl("pre", { text: compiled.markdown });
+
+    new Setting(contentEl)
+      .setName("Also write HTML")
+      .setDesc(compiled.path.replace(/\.md$/, ".html"))
+      .addToggle((toggle) =>
+        toggle.setValue(this.html).onChange((value) => {
+          this.html = value;
+        })
+      );
+
+    new Setting(contentEl).addButton((button) =>
+      button
+        .setButtonText("Write")
+        .setCta()
+        .onClick(() => {
+          this.close();
+          plugin.writeCompiledBranch(compiled, this.html);
+        })
+    );
+  }
+}
+
+class ZettelIndexModal extends Modal {
+  private kind: ZettelIndexKind = "contents";
+  private branchID = "";
+
+  constructor(app: App, plugin: NewZettel) {
+    super(app);
 
-    return titles;
-  }
-}
+    const { contentEl } = this;
+    this.titleEl.setText("Insert zettel index");
 
-type ZettelModelCallback = (text: string, options: ZettelModelOptions) => void;
-type ZettelModelOptions = {
-  openNewZettel: boolean;
-};
+    new Setting(contentEl)
+      .setName("Index")
+      .setDesc(
+        "The register lists the tags and the keywords frontmatter field of the zettels."
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption("contents", "Table of contents")
+          .addOption("register", "Keyword register")
+          .setValue(this.kind)
+          .onChange((value) => {
+            this.kind = value as ZettelIndexKind;
+          })
+      );
+    new Setting(contentEl)
+      .setName("Branch")
+      .setDesc("ID of the branch to index. Leave empty for the whole vault.")
+      .addText((text) =>
+        text.setPlaceholder("Example: 3").onChange((value) => {
+          this.branchID = value.trim();
+        })
+      );
 
-const MakeZettelModelOptionDefault: () => ZettelModelOptions = () => ({
-  openNewZettel: true,
-});
+    new Setting(contentEl).addButton((button) =>
+      button
+        .setButtonText("Insert")
+        .setCta()
+        .onClick(async () => {
+          if (this.branchID !== "" && !plugin.idExists(this.branchID)) {
+            new Notice(`No zettel with the ID ${this.branchID}`);
+            return;
+          }
+          const editor =
+            this.app.workspace.getActiveViewOfType(MarkdownView)?.editor;
+          editor?.replaceSelection(
+            await plugin.indexBlock(this.kind, this.branchID)
+          );
+          this.close();
+        })
+    );
+  }
+}
 
-class NewZettelModal extends Modal {
-  public completion: ZettelModelCallback;
-  private textBox: HTMLInputElement;
-  private openNewZettelCheckbox: HTMLInputElement;
+class NewZettelBetweenModal extends Modal {
+  private completion: (strategy: ZettelInsertStrategy) => void;
 
   constructor(
     app: App,
-    completion: ZettelModelCallback,
-    options: ZettelModelOptions = MakeZettelModelOptionDefault()
+    id: string,
+    branchID: string,
+    shiftID: string,
+    shiftRenames: string[],
+    completion: (strategy: ZettelInsertStrategy) => void
   ) {
     super(app);
     this.completion = completion;
 
-    /***********************************
-     ** Model Title                   **
-     ***********************************/
     const { contentEl } = this;
     contentEl.parentElement!.addClass("zettel-modal");
-    this.titleEl.setText("New zettel title...");
+    this.titleEl.setText(`New zettel after ${id}...`);
 
-    /***********************************
-     ** Name and GO area              **
-     ***********************************/
-
-    // Setup the container
-    const main_container = contentEl.createEl("div", {
-      cls: "zettel-modal-container",
-    });
+    this.addStrategy(
+      "branch",
+      `Branch off as ${branchID}`,
+      `Creates a child of ${id}, nothing is renamed.`,
+      []
+    );
+    this.addStrategy(
+      "shift",
+      `Insert as ${shiftID}`,
+      `Moves ${shiftID} and the siblings after it down by one.`,
+      shiftRenames
+    );
+  }
 
-    // Add the textBox
-    this.textBox = contentEl.createEl("input", {
-      type: "text",
-      cls: "zettel-modal-textbox",
+  private addStrategy(
+    strategy: ZettelInsertStrategy,
+    name: string,
+    description: string,
+    renames: string[]
+  ) {
+    const maxPreview = 20;
+    const containerEl = this.contentEl.createDiv({
+      cls: "zettel-modal-container zettel-strategy-container",
     });
-    this.textBox.id = "zettel-modal-textbox";
-    this.textBox.addEventListener("keydown", (event) => {
-      if (event.key == "Enter") {
-        event.preventDefault();
-        this.goTapped();
+    const infoEl = containerEl.createDiv({ cls: "zettel-strategy-info" });
+    infoEl.createEl("strong", { text: name });
+    infoEl.createDiv({ text: description });
+    if (renames.length > 0) {
+      const listEl = infoEl.createEl("ul", { cls: "zettel-rename-preview" });
+      for (const rename of renames.slice(0, maxPreview)) {
+        listEl.createEl("li", { text: rename });
       }
-    });
-    main_container.append(this.textBox);
-
-    // Add the go button
-    const button = contentEl.createEl("input", {
+      if (renames.length > maxPreview) {
+        listEl.createEl("li", {
+          text: `...and ${renames.length - maxPreview} more`,
+        });
+      }
+    }
+    const button = containerEl.createEl("input", {
       type: "button",
       value: "GO",
       cls: "zettel-modal-button",
     });
-    button.addEventListener("click", (e: Event) => this.goTapped());
-    main_container.append(button);
+    button.addEventListener("click", () => {
+      this.close();
+      this.completion(strategy);
+    });
+  }
+}
 
-    contentEl.append(main_container);
+class ZettelMigrationModal extends Modal {
+  private plugin: NewZettel;
+  private folder = "";
+  private rootID = "";
+  private strategy: MigrationStrategy = "folders";
+  private mappingFile = MIGRATION_MAPPING_FILE;
+  private entries: MigrationEntry[] = [];
+  private previewEl: HTMLElement;
 
-    /***********************************
-     ** New Zettel Options            **
-     ***********************************/
+  constructor(app: App, plugin: NewZettel) {
+    super(app);
+    this.plugin = plugin;
 
-    // Setup the container
-    const options_container = contentEl.appendChild(
-      contentEl.createEl("div", {
-        cls: ["zettel-modal-container", "zettel-options-container"],
-      })
-    );
-    // Create label inside the container
-    const label = options_container.appendChild(
-      contentEl.createEl("label", {
-        cls: ["label", "zettel-label"],
-      })
+    const { contentEl } = this;
+    this.titleEl.setText("Migrate notes to Luhmann IDs");
+
+    new Setting(contentEl)
+      .setName("Folder")
+      .setDesc(
+        "Notes in this folder and its subfolders get IDs. Leave empty for the whole vault."
+      )
+      .addText((text) =>
+        text.setPlaceholder("Example: notes").onChange((value) => {
+          this.folder = value.trim();
+          this.updatePlan();
+        })
+      );
+    new Setting(contentEl)
+      .setName("Root ID")
+      .setDesc(
+        "The notes are numbered as children of this ID. Leave empty to number them from the top level."
+      )
+      .addText((text) =>
+        text.setPlaceholder("Example: 3").onChange((value) => {
+          this.rootID = value.trim();
+          this.updatePlan();
+        })
+      );
+    new Setting(contentEl)
+      .setName("Assign IDs")
+      .setDesc(
+        "Folders become branches, with a new note for folders that don't have a note of the same name. " +
+          "The parent frontmatter field may link to another note or an existing zettel."
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption("folders", "From folder structure")
+          .addOption("frontmatter", "From parent frontmatter")
+          .addOption("alphabetical", "In alphabetical order")
+          .setValue(this.strategy)
+          .onChange((value) => {
+            this.strategy = value as MigrationStrategy;
+            this.updatePlan();
+          })
+      );
+    new Setting(contentEl)
+      .setName("Mapping file")
+      .setDesc(
+        "Export the mapping as CSV to review or edit it, then import it to migrate with your changes. " +
+          "Notes with an empty ID are left alone."
+      )
+      .addText((text) =>
+        text.setValue(this.mappingFile).onChange((value) => {
+          this.mappingFile = normalizePath(value.trim());
+        })
+      )
+      .addButton((button) =>
+        button.setButtonText("Export").onClick(() => this.exportMapping())
+      )
+      .addButton((button) =>
+        button.setButtonText("Import").onClick(() => this.importMapping())
+      );
+
+    this.previewEl = contentEl.createDiv({ cls: "luhman-migration-preview" });
+
+    new Setting(contentEl).addButton((button) =>
+      button
+        .setButtonText("Migrate")
+        .setWarning()
+        .onClick(async () => {
+          if (await this.plugin.migrateNotes(this.entries)) {
+            new Notice(`Migrated ${this.entries.length} notes`);
+            this.close();
+          }
+        })
     );
 
-    // Create label
-    const openNewZettelCheckboxLabel = label.appendChild(
-      contentEl.createEl("div", { cls: ["labelText"] })
+    this.updatePlan();
+  }
+
+  private updatePlan() {
+    this.entries = this.plugin.planMigration(
+      this.folder,
+      this.rootID,
+      this.strategy
     );
-    openNewZettelCheckboxLabel.innerText = "Open New Zettel on Creation";
+    this.renderPreview();
+  }
 
-    // Create checkbox inside the container
-    this.openNewZettelCheckbox = label.appendChild(
-      contentEl.createEl("input", {
-        type: "checkbox",
-        cls: ["zettel-modal-checkbox"],
-        value: options.openNewZettel.toString(),
-      })
+  private renderPreview() {
+    const maxPreview = 50;
+    const { previewEl, entries } = this;
+    previewEl.empty();
+    const problem = this.plugin.validateMigration(entries);
+    previewEl.createDiv({
+      cls: problem ? "mod-warning" : "",
+      text: problem ?? `${entries.length} notes will be renamed or created`,
+    });
+    const listEl = previewEl.createEl("ul", { cls: "zettel-rename-preview" });
+    const sorted = [...entries].sort((a, b) =>
+      this.plugin.compareIDs(a.id, b.id)
     );
-    this.openNewZettelCheckbox.id = "zettel-modal-option-openZettel";
-    this.openNewZettelCheckbox.checked = options.openNewZettel;
+    for (const { path, id } of sorted.slice(0, maxPreview)) {
+      const file = this.app.vault.getAbstractFileByPath(path);
+      const name = path.split("/").pop()?.replace(/\.md$/, "") ?? path;
+      const newName = this.plugin.zettelFilename(id, name);
+      let text = `${path}/ → new note ${newName}`;
+      if (file instanceof TFile) {
+        text = this.plugin.usesFrontmatterIDs()
+          ? `${name} → ID ${id}`
+          : `${name} → ${newName}`;
+      }
+      listEl.createEl("li", { text });
+    }
+    if (sorted.length > maxPreview) {
+      listEl.createEl("li", {
+        text: `...and ${sorted.length - maxPreview} more`,
+      });
+    }
   }
 
-  onOpen() {
-    window.setTimeout(() => {
-      this.textBox.focus();
-    }, 0);
+  private async exportMapping() {
+    const csv = toCSV([
+      ["path", "id"],
+      ...this.entries.map(({ path, id }) => [path, id]),
+    ]);
+    const existing = this.app.vault.getAbstractFileByPath(this.mappingFile);
+    if (existing instanceof TFile) {
+      await this.app.vault.modify(existing, csv);
+    } else {
+      await this.app.vault.create(this.mappingFile, csv);
+    }
+    new Notice(`Exported the mapping to ${this.mappingFile}`);
   }
 
-  goTapped() {
-    const title = this.textBox.value;
-    const openNewZettel = this.openNewZettelCheckbox.checked;
-    this.completion(title, {
-      openNewZettel,
-    });
-    this.close();
+  private async importMapping() {
+    const file = this.app.vault.getAbstractFileByPath(this.mappingFile);
+    if (!(file instanceof TFile)) {
+      new Notice(`Couldn't find ${this.mappingFile}`);
+      return;
+    }
+    const rows = parseCSV(await this.app.vault.read(file));
+    if (rows[0]?.[0] == "path") {
+      rows.shift();
+    }
+    this.entries = rows
+      .map(([path, id]) => ({ path: path?.trim(), id: id?.trim() }))
+      .filter(({ path, id }) => path && id);
+    this.renderPreview();
   }
 }
 
-class ZettelSuggester extends FuzzySuggestModal<string> {
-  private titles: Map<string, TFile>;
-  private completion: (file: TFile) => void;
-  private initialQuery: string;
+class ZettelConversionModal extends Modal {
+  private completion: () => void;
 
-  constructor(
-    app: App,
-    titles: Map<string, TFile>,
-    search: string | undefined,
-    completion: (file: TFile) => void
-  ) {
+  constructor(app: App, conversion: NamingConversion, completion: () => void) {
     super(app);
-    this.initialQuery = search ?? "";
-    this.titles = titles;
     this.completion = completion;
-    this.emptyStateText = "No zettels found";
-    this.setPlaceholder("Search for a zettel...");
-    console.log(this.initialQuery);
+    const { renames, conflicts } = conversion;
+    const maxPreview = 50;
+
+    const { contentEl } = this;
+    this.titleEl.setText("Convert zettels to the naming rule");
+
+    const previewEl = contentEl.createDiv({ cls: "luhman-conversion-preview" });
+    if (conflicts.length > 0) {
+      previewEl.createEl("strong", {
+        text: `${conflicts.length} zettels can't be converted and are left alone`,
+      });
+      const listEl = previewEl.createEl("ul", { cls: "zettel-rename-preview" });
+      for (const { path, reason } of conflicts.slice(0, maxPreview)) {
+        listEl.createEl("li", { text: `${path} ${reason}` });
+      }
+      if (conflicts.length > maxPreview) {
+        listEl.createEl("li", {
+          text: `...and ${conflicts.length - maxPreview} more`,
+        });
+      }
+    }
+    previewEl.createEl("strong", {
+      text: `${renames.length} zettels will be renamed`,
+    });
+    const listEl = previewEl.createEl("ul", { cls: "zettel-rename-preview" });
+    for (const { from, to, path } of renames.slice(0, maxPreview)) {
+      listEl.createEl("li", {
+        text: path ? `${path} → ID ${to}` : `${from} → ${to}`,
+      });
+    }
+    if (renames.length > maxPreview) {
+      listEl.createEl("li", {
+        text: `...and ${renames.length - maxPreview} more`,
+      });
+    }
+
+    new Setting(contentEl).addButton((button) =>
+      button
+        .setButtonText(
+          renames.length > 0 ? `Rename ${renames.length} zettels` : "Done"
+        )
+        .setCta()
+        .onClick(() => {
+          this.close();
+          this.completion();
+        })
+    );
   }
+}
 
-  onOpen() {
-    super.onOpen();
-    this.inputEl.value = this.initialQuery;
-    const event = new Event("input");
-    this.inputEl.dispatchEvent(event);
+class ZettelTreeView extends ItemView {
+  private plugin: NewZettel;
+  private titles: Map<string, string> = new Map();
+  private expanded: Set<string> = new Set();
+
+  constructor(leaf: WorkspaceLeaf, plugin: NewZettel) {
+    super(leaf);
+    this.plugin = plugin;
+  }
+
+  getViewType(): string {
+    return ZETTEL_TREE_VIEW_TYPE;
+  }
+
+  getDisplayText(): string {
+    return "Zettel Tree";
   }
 
-  getItems(): string[] {
-    return Array.from(this.titles.keys()).sort();
+  getIcon(): string {
+    return "list-tree";
   }
 
-  getItemText(item: string): string {
-    return item;
+  async onOpen() {
+    const active = this.app.workspace.getActiveFile();
+    if (active) {
+      this.expandAncestorsOf(active);
+    }
+    await this.refresh();
   }
 
-  renderSuggestion(value: FuzzyMatch<string>, el: HTMLElement) {
-    el.setText(value.item);
+  async refresh() {
+    const titles: Map<string, string> = new Map();
+    for (const file of this.plugin.getZettels()) {
+      const title = await this.plugin.getNoteTitle(file);
+      if (title) {
+        titles.set(file.path, title);
+      }
+    }
+    this.titles = titles;
+    this.render();
+  }
 
-    const matches = value.match.matches;
-    if (matches == null || matches.length == 0) {
+  revealFile(file: TFile) {
+    if (!this.plugin.isZettelFile(file)) {
       return;
     }
-    const start = matches[0][0];
-    const end = matches[0][1];
+    this.expandAncestorsOf(file);
+    this.render();
+    this.contentEl
+      .querySelector(".luhman-tree-item-self.is-active")
+      ?.scrollIntoView({ block: "nearest" });
+  }
 
-    const range = new Range();
+  private expandAncestorsOf(file: TFile) {
+    let id = this.plugin.parentID(this.plugin.zettelID(file));
+    while (id !== "") {
+      this.expanded.add(id);
+      id = this.plugin.parentID(id);
+    }
+  }
 
-    const text = el.firstChild;
-    if (text == null) {
+  private render() {
+    const { contentEl } = this;
+    contentEl.empty();
+    const treeEl = contentEl.createDiv({ cls: "luhman-tree" });
+    const roots = this.plugin.getRootZettels();
+    if (roots.length == 0) {
+      treeEl.createDiv({ cls: "pane-empty", text: "No zettels found" });
       return;
     }
+    const activePath = this.app.workspace.getActiveFile()?.path;
+    for (const root of roots) {
+      this.renderNode(treeEl, root, activePath);
+    }
+  }
+
+  private renderNode(
+    parentEl: HTMLElement,
+    file: TFile,
+    activePath: string | undefined
+  ) {
+    const id = this.plugin.zettelID(file);
+    const children = this.plugin.sortZettels(
+      this.plugin.getDirectChildZettels(id)
+    );
+    const isExpanded = this.expanded.has(id);
+
+    const itemEl = parentEl.createDiv({ cls: "tree-item luhman-tree-item" });
+    const selfEl = itemEl.createDiv({
+      cls: "tree-item-self is-clickable luhman-tree-item-self",
+    });
+    if (file.path === activePath) {
+      selfEl.addClass("is-active");
+    }
+
+    if (children.length > 0) {
+      const collapseEl = selfEl.createDiv({
+        cls: "tree-item-icon collapse-icon",
+      });
+      setIcon(collapseEl, "right-triangle");
+      if (!isExpanded) {
+        itemEl.addClass("is-collapsed");
+        collapseEl.addClass("is-collapsed");
+      }
+      collapseEl.addEventListener("click", (event) => {
+        event.stopPropagation();
+        if (isExpanded) {
+          this.expanded.delete(id);
+        } else {
+          this.expanded.add(id);
+        }
+        this.render();
+      });
+    }
+
+    const innerEl = selfEl.createDiv({ cls: "tree-item-inner" });
+    innerEl.createSpan({ cls: "luhman-tree-id", text: id });
+    innerEl.createSpan({
+      cls: "luhman-tree-title",
+      text: this.titles.get(file.path) ?? file.basename,
+    });
+    selfEl.addEventListener("click", (event) => {
+      this.app.workspace.getLeaf(event.ctrlKey || event.metaKey).openFile(file);
+    });
+    this.registerDragAndDrop(selfEl, id);
+
+    if (children.length > 0 && isExpanded) {
+      const childrenEl = itemEl.createDiv({ cls: "tree-item-children" });
+      for (const child of children) {
+        this.renderNode(childrenEl, child, activePath);
+      }
+    }
+  }
+
+  private registerDragAndDrop(selfEl: HTMLElement, id: string) {
+    const dropClasses = ["is-drop-before", "is-drop-after", "is-drop-child"];
+    // Dropping on the top or bottom edge of a zettel makes a sibling,
+    // dropping anywhere else makes a child
+    const positionAt = (event: DragEvent): ZettelMovePosition => {
+      const rect = selfEl.getBoundingClientRect();
+      const offset = (event.clientY - rect.top) / rect.height;
+      return offset < 0.25 ? "before" : offset > 0.75 ? "after" : "child";
+    };
+
+    selfEl.draggable = true;
+    selfEl.addEventListener("dragstart", (event) => {
+      event.dataTransfer?.setData(ZETTEL_TREE_VIEW_TYPE, id);
+      if (event.dataTransfer) {
+        event.dataTransfer.effectAllowed = "move";
+      }
+    });
+    selfEl.addEventListener("dragover", (event) => {
+      if (!event.dataTransfer?.types.includes(ZETTEL_TREE_VIEW_TYPE)) {
+        return;
+      }
+      event.preventDefault();
+      selfEl.removeClasses(dropClasses);
+      selfEl.addClass(`is-drop-${positionAt(event)}`);
+    });
+    selfEl.addEventListener("dragleave", () => {
+      selfEl.removeClasses(dropClasses);
+    });
+    selfEl.addEventListener("drop", (event) => {
+      selfEl.removeClasses(dropClasses);
+      const draggedID = event.dataTransfer?.getData(ZETTEL_TREE_VIEW_TYPE);
+      if (!draggedID || draggedID === id) {
+        return;
+      }
+      event.preventDefault();
+      this.plugin.moveZettel(draggedID, id, positionAt(event));
+    });
+  }
+}
+
+const ZETTEL_ISSUE_HEADINGS: Record<ZettelIssueKind, string> = {
+  duplicate: "Duplicate IDs",
+  orphan: "Missing parents",
+  gap: "Gaps between siblings",
+  "near-miss": "Files that almost match the ID rule",
+  nav: "Outdated navigation links",
+};
+
+class ZettelCheckView extends ItemView {
+  private plugin: NewZettel;
+
+  constructor(leaf: WorkspaceLeaf, plugin: NewZettel) {
+    super(leaf);
+    this.plugin = plugin;
+  }
+
+  getViewType(): string {
+    return ZETTEL_CHECK_VIEW_TYPE;
+  }
+
+  getDisplayText(): string {
+    return "Zettelkasten Check";
+  }
+
+  getIcon(): string {
+    return "stethoscope";
+  }
+
+  async onOpen() {
+    await this.refresh();
+  }
+
+  async refresh() {
+    this.contentEl.empty();
+    this.contentEl.createDiv({ cls: "pane-empty", text: "Checking..." });
+    this.render(await this.plugin.checkZettelkasten());
+  }
+
+  private render(issues: ZettelIssue[]) {
+    const { contentEl } = this;
+    contentEl.empty();
+    const reportEl = contentEl.createDiv({ cls: "luhman-check" });
+    const headerEl = reportEl.createDiv({ cls: "luhman-check-header" });
+    headerEl.createSpan({
+      text:
+        issues.length == 0
+          ? "No problems found"
+          : `${issues.length} problem${issues.length == 1 ? "" : "s"} found`,
+    });
+    headerEl
+      .createEl("button", { text: "Check again" })
+      .addEventListener("click", () => this.refresh());
 
-    range.setStart(text, start);
-    range.setEnd(text, end);
-    range.surroundContents(document.createElement("b"));
+    for (const kind of Object.keys(
+      ZETTEL_ISSUE_HEADINGS
+    ) as ZettelIssueKind[]) {
+      const ofKind = issues.filter((issue) => issue.kind == kind);
+      if (ofKind.length == 0) {
+        continue;
+      }
+      reportEl.createEl("h4", { text: ZETTEL_ISSUE_HEADINGS[kind] });
+      for (const issue of ofKind) {
+        this.renderIssue(reportEl, issue);
+      }
+    }
   }
 
-  onChooseItem(item: string, evt: MouseEvent | KeyboardEvent) {
-    this.completion(this.titles.get(item)!);
+  private renderIssue(parentEl: HTMLElement, issue: ZettelIssue) {
+    const issueEl = parentEl.createDiv({ cls: "luhman-check-issue" });
+    const infoEl = issueEl.createDiv({ cls: "luhman-check-issue-info" });
+    infoEl.createDiv({ text: issue.message });
+    for (const file of issue.files) {
+      infoEl
+        .createEl("a", { cls: "luhman-check-file", text: file.path })
+        .addEventListener("click", (event) => {
+          this.app.workspace
+            .getLeaf(event.ctrlKey || event.metaKey)
+            .openFile(file);
+        });
+    }
+    const fix = issue.fix;
+    if (fix) {
+      const button = issueEl.createEl("button", {
+        cls: "mod-cta",
+        text: fix.label,
+      });
+      button.addEventListener("click", async () => {
+        button.disabled = true;
+        await fix.apply();
+        await this.refresh();
+      });
+    }
   }
 }